@@ -0,0 +1,18 @@
+/** A program of about `lines` lines in the style of the examples. */
+export function generateFile(lines: number): string {
+  const chunk = [
+    "add{i} = (a, b) => a + b * {i} - (a / 2);",
+    "point{i} = { x: {i}, y: add{i}(1, 2), tags: [1, 2, 3] };",
+    "if point{i}.x > 10 && !(point{i}.y == 3) {",
+    '  print("big ${point{i}.x}");',
+    "} else {",
+    "  point{i}.tags[0] = len(point{i}.tags);",
+    "}",
+    "for t in point{i}.tags { total = total + t; }",
+  ];
+  const out: string[] = ["total = 0;"];
+  for (let i = 0; out.length < lines; i++) {
+    out.push(...chunk.map((line) => line.split("{i}").join(String(i))));
+  }
+  return out.join("\n");
+}
@@ -0,0 +1,87 @@
+/**
+ * Times the parser on generated inputs: deeply nested expressions and large
+ * files. Pass `--baseline <path>` to time another copy of tinyfn.ts (say, an
+ * older revision from `git show`) side by side.
+ *
+ *   pnpm bench:parse
+ *   pnpm bench:parse --baseline /tmp/old/tinyfn.ts
+ */
+import path from "path";
+import { performance } from "perf_hooks";
+import * as current from "../tinyfn";
+import { generateFile } from "./generate";
+
+type Parser = Pick<typeof current, "parse" | "tokenize">;
+
+type Case = { name: string; sizes: number[]; generate: (n: number) => string };
+
+/** Sizes stop growing once one takes longer than this. */
+const budgetMs = 1000;
+
+const cases: Case[] = [
+  {
+    name: "nested parentheses",
+    sizes: [4, 8, 12, 16, 100, 400],
+    generate: (n) => `x = ${"(".repeat(n)}1${")".repeat(n)};`,
+  },
+  {
+    name: "nested calls",
+    sizes: [4, 8, 12, 16, 100, 400],
+    generate: (n) => `x = ${"f(".repeat(n)}1${")".repeat(n)};`,
+  },
+  {
+    name: "nested lists",
+    sizes: [4, 8, 12, 16, 100, 400],
+    generate: (n) => `x = ${"[1, ".repeat(n)}2${"]".repeat(n)};`,
+  },
+  {
+    name: "nested lambdas",
+    sizes: [4, 8, 12, 16, 100, 400],
+    generate: (n) => `f = ${"(a) => ".repeat(n)}a;`,
+  },
+  {
+    name: "large file (lines)",
+    sizes: [100, 1000, 10000],
+    generate: generateFile,
+  },
+];
+
+function time(parser: Parser, src: string): number {
+  const tokens = parser.tokenize(src);
+  const start = performance.now();
+  parser.parse({ tokens });
+  return performance.now() - start;
+}
+
+async function main(argv: string[]) {
+  const parsers: Array<[string, Parser]> = [["current", current]];
+  const baselineIndex = argv.indexOf("--baseline");
+  if (baselineIndex >= 0) {
+    const file = argv[baselineIndex + 1];
+    if (!file) {
+      throw new Error("--baseline needs a path to tinyfn.ts");
+    }
+    parsers.push(["baseline", await import(path.resolve(file))]);
+  }
+
+  for (const { name, sizes, generate } of cases) {
+    console.log(name);
+    const overBudget = new Set<string>();
+    for (const size of sizes) {
+      const src = generate(size);
+      const cells = parsers.map(([label, parser]) => {
+        if (overBudget.has(label)) {
+          return `${label} skipped`;
+        }
+        const ms = time(parser, src);
+        if (ms > budgetMs) {
+          overBudget.add(label);
+        }
+        return `${label} ${ms.toFixed(1)}ms`;
+      });
+      console.log(`  ${String(size).padStart(6)}  ${cells.join("  ")}`);
+    }
+  }
+}
+
+main(process.argv.slice(2));
@@ -0,0 +1,138 @@
+/**
+ * Times the AST walker against the closure compiler on the example programs
+ * and some heavier ones. Each program's output and result must be the same
+ * under both, or the run exits with 1.
+ *
+ *   pnpm bench:run
+ */
+import fs from "fs";
+import path from "path";
+import { performance } from "perf_hooks";
+import { inspect } from "util";
+import { createEvalState, evaluate, parse, tokenize } from "../tinyfn";
+import { generateFile } from "./generate";
+
+type Program = { name: string; src: string; file?: string };
+
+/** Each program runs this many times per backend; the fastest run counts. */
+const runs = 5;
+
+function example(name: string): Program {
+  const file = path.join(__dirname, "..", name);
+  return { name, src: fs.readFileSync(file, "utf-8"), file };
+}
+
+const programs: Program[] = [
+  example("fib.tfn"),
+  example("pi.tfn"),
+  example("functional.tfn"),
+  {
+    name: "fib(22)",
+    src: example("fib.tfn").src.replace("print(fib(8))", "print(fib(22))"),
+  },
+  {
+    name: "pi, 200000 terms",
+    src: example("pi.tfn").src.replace("range(10000)", "range(200000)"),
+  },
+  {
+    name: "sieve of primes below 30000",
+    src: `
+      n = 30000;
+      composite = [];
+      for i in range(n) { push(composite, false); }
+      primes = [];
+      i = 2;
+      while i < n {
+        if !composite[i] {
+          push(primes, i);
+          j = i * i;
+          while j < n {
+            composite[j] = true;
+            j = j + i;
+          }
+        }
+        i = i + 1;
+      }
+      print(len(primes));
+    `,
+  },
+  {
+    name: "records and closures",
+    src: `
+      counter = (start) => {
+        state = { count: start };
+        { inc: () => { state.count = state.count + 1; }, get: () => state.count };
+      };
+      total = 0;
+      for i in range(3000) {
+        c = counter(i);
+        for k in range(10) { c.inc(); }
+        total = total + c.get();
+      }
+      print("total: \${total}");
+    `,
+  },
+  { name: "generated, 5000 lines", src: generateFile(5000) },
+];
+
+/** Runs `program` once, returning how long it took and what it did. */
+function runOnce(
+  program: Program,
+  compile: boolean,
+): { ms: number; output: string } {
+  let output = "";
+  const write = (text: string) => {
+    output += text;
+  };
+  const ast = parse({ tokens: tokenize(program.src, program.file) });
+  const state = createEvalState({
+    stdout: write,
+    stderr: write,
+    file: program.file,
+    compile,
+  });
+  const start = performance.now();
+  let result: unknown;
+  try {
+    result = evaluate(ast, state);
+  } catch (e) {
+    result = e instanceof Error ? e.message : e;
+  }
+  const ms = performance.now() - start;
+  return { ms, output: `${output}=> ${inspect(result)}` };
+}
+
+function main() {
+  let mismatches = 0;
+  for (const program of programs) {
+    const cells: string[] = [];
+    const outputs: string[] = [];
+    const best: number[] = [];
+    for (const [label, compile] of [
+      ["walk", false],
+      ["compile", true],
+    ] as const) {
+      let ms = Infinity;
+      for (let i = 0; i < runs; i++) {
+        const run = runOnce(program, compile);
+        ms = Math.min(ms, run.ms);
+        outputs.push(run.output);
+      }
+      best.push(ms);
+      cells.push(`${label} ${ms.toFixed(1)}ms`);
+    }
+    const speedup = best[0]! / best[1]!;
+    console.log(
+      `${program.name.padEnd(30)} ${cells.join("  ")}  x${speedup.toFixed(1)}`,
+    );
+    if (outputs.some((output) => output !== outputs[0])) {
+      mismatches++;
+      console.log(`  output differs between backends`);
+    }
+  }
+  if (mismatches > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
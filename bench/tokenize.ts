@@ -0,0 +1,118 @@
+/**
+ * Times the tokenizer on generated files. With `--baseline <path>` it also
+ * tokenizes a corpus of tricky inputs with both copies of tinyfn.ts and exits
+ * with 1 if any token stream or error differs.
+ *
+ *   pnpm bench:tokenize
+ *   pnpm bench:tokenize --baseline /tmp/old/tinyfn.ts
+ */
+import fs from "fs";
+import path from "path";
+import { performance } from "perf_hooks";
+import { inspect } from "util";
+import * as current from "../tinyfn";
+import { generateFile } from "./generate";
+
+type Tokenizer = Pick<typeof current, "tokenize">;
+
+const corpus: string[] = [
+  // numbers, including the ones that run into operators and names
+  "1 1.5 .5 1. 1.5e3 1e5 1.5ex 0.0 007 9007199254740993 123456789012345678901234567890",
+  "a.0 1..2 x.y.z 5-1 -5 3*-2",
+  // every operator, glued together
+  "=> == != <= >= && || , . : + - * / < > = ! ( ) [ ] { } ;",
+  "=>==!=<=>=&&||<<==>=>!!",
+  // names and booleans
+  "true false trueish false_ truefalse π = 3; ünïcödé; x1 a_b",
+  // strings and escapes
+  `"plain" 'single' "esc \\n\\t\\r\\0\\\\ \\" \\' \\$" "\\u{1F600} \\u{41}"`,
+  '"a ${b} c ${d + "e ${f}"} g" "${x}" "${ {a: 1}.a }"',
+  '"spans ${\n  1 +\n  2\n} lines" after',
+  // comments and line endings
+  "# comment\nx = 1; # trailing\n#\n",
+  "a\r\nb\rc\n\td   e",
+  "x = 1 # no newline at the end",
+  "",
+  // errors
+  "_x",
+  "@",
+  'x = "unterminated',
+  '"bad \\q escape"',
+  '"open ${ interpolation"',
+  '"empty ${}"',
+  "a\nb\n  $",
+];
+
+function corpusFiles(): string[] {
+  const root = path.join(__dirname, "..");
+  return fs
+    .readdirSync(root)
+    .filter((name) => name.endsWith(".tfn"))
+    .map((name) => fs.readFileSync(path.join(root, name), "utf-8"));
+}
+
+/** The tokens or error for `src`, as text that can be compared. */
+function describeTokens(tokenizer: Tokenizer, src: string): string {
+  try {
+    return inspect(tokenizer.tokenize(src, "corpus.tfn"), {
+      depth: Infinity,
+      maxArrayLength: Infinity,
+      maxStringLength: Infinity,
+    });
+  } catch (e) {
+    return `error: ${e instanceof Error ? e.message : e}`;
+  }
+}
+
+function compare(baseline: Tokenizer): number {
+  const inputs = [...corpus, ...corpusFiles(), generateFile(500)];
+  let mismatches = 0;
+  for (const src of inputs) {
+    const expected = describeTokens(baseline, src);
+    const actual = describeTokens(current, src);
+    if (expected !== actual) {
+      mismatches++;
+      console.log(`mismatch for ${inspect(src.slice(0, 60))}`);
+      console.log(`  baseline: ${expected.slice(0, 300)}`);
+      console.log(`  current:  ${actual.slice(0, 300)}`);
+    }
+  }
+  console.log(
+    `${inputs.length - mismatches}/${inputs.length} corpus inputs tokenize the same`,
+  );
+  return mismatches;
+}
+
+function time(tokenizer: Tokenizer, src: string): number {
+  const start = performance.now();
+  tokenizer.tokenize(src);
+  return performance.now() - start;
+}
+
+async function main(argv: string[]) {
+  const tokenizers: Array<[string, Tokenizer]> = [["current", current]];
+  const baselineIndex = argv.indexOf("--baseline");
+  if (baselineIndex >= 0) {
+    const file = argv[baselineIndex + 1];
+    if (!file) {
+      throw new Error("--baseline needs a path to tinyfn.ts");
+    }
+    tokenizers.push(["baseline", await import(path.resolve(file))]);
+  }
+
+  console.log("generated file (lines)");
+  for (const lines of [100, 1000, 5000]) {
+    const src = generateFile(lines);
+    const cells = tokenizers.map(
+      ([label, tokenizer]) => `${label} ${time(tokenizer, src).toFixed(1)}ms`,
+    );
+    console.log(`  ${String(lines).padStart(6)}  ${cells.join("  ")}`);
+  }
+
+  const baseline = tokenizers[1];
+  if (baseline && compare(baseline[1]) > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main(process.argv.slice(2));
@@ -0,0 +1,1231 @@
+import fs from "fs";
+import path from "path";
+import process from "process";
+import {
+  ASTNode,
+  AssignmentNode,
+  BaseNode,
+  CallNode,
+  Diagnostic,
+  ErrorWithSource,
+  ExpressionNode,
+  FunctionNode,
+  IdentifierNode,
+  ImportNode,
+  IndexNode,
+  MemberNode,
+  NameScope,
+  NamedTypeNode,
+  TypeNode,
+  parseType,
+  parseWithDiagnostics,
+  resolveNames,
+  sourceText,
+  tokenize,
+} from "./tinyfn";
+
+type TypeVar = { kind: "var"; level: number; ref?: Type };
+type PrimitiveType = {
+  kind: "primitive";
+  name: "number" | "string" | "boolean" | "undefined";
+};
+type ListType = { kind: "list"; item: Type };
+/**
+ * A record's fields. `rest` is a type variable standing for fields not known
+ * yet, so a function that reads `p.x` accepts any record with an `x`. Records
+ * written as literals have no `rest`: they have exactly the fields they list.
+ */
+type RecordType = { kind: "record"; fields: Map<string, Type>; rest?: Type };
+type FunctionType = { kind: "function"; params: Type[]; result: Type };
+type Type = TypeVar | PrimitiveType | ListType | RecordType | FunctionType;
+
+const primitives = {
+  number: { kind: "primitive", name: "number" },
+  string: { kind: "primitive", name: "string" },
+  boolean: { kind: "primitive", name: "boolean" },
+  undefined: { kind: "primitive", name: "undefined" },
+} as const satisfies { [name: string]: PrimitiveType };
+
+/** The level of type variables in a generic type; see `generalize`. */
+const generic = Infinity;
+
+/**
+ * The type of each builtin, written like a parameter annotation. A builtin
+ * with several types takes whichever fits the arguments first.
+ */
+export const builtinTypes: { [name: string]: string | string[] } = {
+  print: "(A) => undefined",
+  eprint: "(A) => undefined",
+  add: "(number, number) => number",
+  "+": [
+    "(number, number) => number",
+    "(string, string) => string",
+    "(string, number) => string",
+    "(number, string) => string",
+    "(string, boolean) => string",
+    "(boolean, string) => string",
+  ],
+  "-": "(number, number) => number",
+  "*": "(number, number) => number",
+  "/": "(number, number) => number",
+  "<": ["(number, number) => boolean", "(string, string) => boolean"],
+  "<=": ["(number, number) => boolean", "(string, string) => boolean"],
+  ">": ["(number, number) => boolean", "(string, string) => boolean"],
+  ">=": ["(number, number) => boolean", "(string, string) => boolean"],
+  "==": "(A, A) => boolean",
+  "!=": "(A, A) => boolean",
+  if: "(boolean, () => A, () => A) => A",
+  push: "([A], A) => number",
+  pop: "([A]) => A",
+  get: "(A, B) => C",
+  each: [
+    "([A], (A) => B) => undefined",
+    "([A], (A, number) => B) => undefined",
+  ],
+  range: "(number) => [number]",
+  len: ["(string) => number", "([A]) => number"],
+  slice: [
+    "(string, number) => string",
+    "(string, number, number) => string",
+    "([A], number) => [A]",
+    "([A], number, number) => [A]",
+  ],
+  split: "(string, string) => [string]",
+  join: ["([A]) => string", "([A], string) => string"],
+  upper: "(string) => string",
+  lower: "(string) => string",
+  trim: "(string) => string",
+  replace: "(string, string, string) => string",
+  str: "(A) => string",
+  exit: ["() => A", "(number) => A"],
+  parseNum: "(string) => number",
+};
+
+/**
+ * Signatures of the builtins grouped under a name, like `list.map`. Pairs
+ * and record contents have no type of their own: `zip` pairs items of one
+ * type, and `values` and `entries` give whatever the caller uses them as.
+ */
+export const builtinNamespaces: {
+  [namespace: string]: { [name: string]: string | string[] };
+} = {
+  list: {
+    map: ["([A], (A) => B) => [B]", "([A], (A, number) => B) => [B]"],
+    filter: [
+      "([A], (A) => boolean) => [A]",
+      "([A], (A, number) => boolean) => [A]",
+    ],
+    reduce: "([A], (B, A) => B, B) => B",
+    sort: ["([A]) => [A]", "([A], (A, A) => number) => [A]"],
+    zip: "([A], [A]) => [[A]]",
+    flat: "([[A]]) => [A]",
+    find: "([A], (A) => boolean) => A",
+    slice: ["([A], number) => [A]", "([A], number, number) => [A]"],
+    concat: "([A], [A]) => [A]",
+    len: "([A]) => number",
+    reverse: "([A]) => [A]",
+  },
+  math: {
+    floor: "(number) => number",
+    sqrt: "(number) => number",
+    pow: "(number, number) => number",
+    min: "(number, number) => number",
+    max: "(number, number) => number",
+    random: "() => number",
+    seed: "(number) => undefined",
+  },
+  record: {
+    keys: "(A) => [string]",
+    values: "(A) => [B]",
+    entries: "(A) => [[B]]",
+    has: "(A, string) => boolean",
+  },
+};
+
+/** What a name refers to: a value, whose type may be generic, or a module. */
+type Binding =
+  | { kind: "value"; type: Type; overloads?: Type[] }
+  | { kind: "namespace"; source: string; exports: Exports };
+
+type Exports = Map<string, Binding>;
+
+type Scope = {
+  bindings: Map<string, Binding>;
+  /** The variables the scope owns; the builtins' scope has none. */
+  names?: NameScope;
+  level: number;
+  /** For a lambda's scope, the type it returns. */
+  result?: Type;
+  /** Whether the lambda has a `return` statement. */
+  returns?: boolean;
+  parent?: Scope;
+};
+
+type Checker = {
+  /** How many let-bound lambdas are being checked; see `generalize`. */
+  level: number;
+  /** Undoes each change to a type variable, latest last; see `tryUnify`. */
+  trail: Array<() => void>;
+  diagnostics: Diagnostic[];
+  file?: string;
+  readFile: (file: string) => string;
+  builtins: Scope;
+  /** The scope of each program, block, lambda and loop, in every module. */
+  nameScopes: Map<ASTNode, NameScope>;
+  modules: Map<string, Exports>;
+  loading: string[];
+  /** The type bound at each assignment, parameter and import, if wanted. */
+  types?: Map<IdentifierNode, Type>;
+};
+
+export type CheckOptions = {
+  /** Path of the program; imports are resolved relative to it. */
+  file?: string;
+  /**
+   * Types of the host's globals, written like annotations, or a list of them
+   * for a function with overloads.
+   */
+  globals?: { [name: string]: string | string[] };
+  readFile?: (file: string) => string;
+  /**
+   * If given, filled with the type of the variable at each assignment target,
+   * parameter, `for` variable and import, written like an annotation.
+   */
+  types?: Map<IdentifierNode, string>;
+};
+
+/**
+ * Infers the type of every expression in `ast` without running it and returns
+ * the errors found: mismatched types, undefined names and calls with the wrong
+ * number of arguments. Imported modules are checked too.
+ *
+ * Inference is Hindley-Milner: a lambda assigned once to a name is generic,
+ * so `id = (x) => x` can be called with a number and then a string. Other
+ * variables have one type for their whole life.
+ */
+export function check(ast: ASTNode, options: CheckOptions = {}): Diagnostic[] {
+  const file = options.file && path.resolve(options.file);
+  const checker: Checker = {
+    level: 0,
+    trail: [],
+    diagnostics: [],
+    file,
+    readFile: options.readFile ?? ((file) => fs.readFileSync(file, "utf-8")),
+    builtins: createScope(undefined, 0),
+    nameScopes: new Map(),
+    modules: new Map(),
+    loading: file ? [file] : [],
+    types: options.types && new Map(),
+  };
+  for (const [namespace, members] of Object.entries(builtinNamespaces)) {
+    const exports: Exports = new Map(
+      Object.entries(members).map(([name, signature]) => [
+        name,
+        builtinBinding(signature),
+      ]),
+    );
+    checker.builtins.bindings.set(namespace, {
+      kind: "namespace",
+      source: namespace,
+      exports,
+    });
+  }
+  for (const [name, signature] of Object.entries({
+    ...builtinTypes,
+    ...options.globals,
+  })) {
+    checker.builtins.bindings.set(name, builtinBinding(signature));
+  }
+  checkProgram(ast, checker);
+  for (const [node, type] of checker.types ?? []) {
+    options.types?.set(node, showType(type));
+  }
+  return checker.diagnostics;
+}
+
+function builtinBinding(signature: string | string[]): Binding {
+  const overloads = (
+    typeof signature === "string" ? [signature] : signature
+  ).map(parseSignature);
+  return { kind: "value", type: overloads[0]!, overloads };
+}
+
+function checkProgram(ast: ASTNode, c: Checker): Scope {
+  const names = resolveNames(ast);
+  for (const [node, scope] of names.scopes) {
+    c.nameScopes.set(node, scope);
+  }
+  const scope = createScope(c.builtins, 0, names.root);
+  infer(ast, scope, c);
+  return scope;
+}
+
+function createScope(
+  parent: Scope | undefined,
+  level: number,
+  names?: NameScope,
+): Scope {
+  return { bindings: new Map(), names, level, parent };
+}
+
+function isInclude(node: CallNode): boolean {
+  return node.callee.type === "identifier" && node.callee.name === "include";
+}
+
+function report(c: Checker, message: string, node: BaseNode) {
+  const duplicate = c.diagnostics.some(
+    (d) =>
+      d.loc.file === node.loc.file &&
+      d.loc.start === node.loc.start &&
+      d.message === message,
+  );
+  if (!duplicate) {
+    c.diagnostics.push({ message, loc: node.loc });
+  }
+}
+
+function infer(node: ASTNode, scope: Scope, c: Checker): Type {
+  switch (node.type) {
+    case "comment":
+    case "break":
+    case "continue":
+      return primitives.undefined;
+    case "literal":
+      if (typeof node.value === "string") {
+        return primitives.string;
+      }
+      return typeof node.value === "boolean"
+        ? primitives.boolean
+        : primitives.number;
+    case "template":
+      for (const part of node.parts) {
+        if (typeof part !== "string") {
+          infer(part, scope, c);
+        }
+      }
+      return primitives.string;
+    case "identifier":
+      return bindingType(lookup(node, scope, c), c);
+    case "assignment":
+      return inferAssignment(node, scope, c);
+    case "export":
+      return infer(node.declaration, scope, c);
+    case "import":
+      checkImport(node, scope, c);
+      return primitives.undefined;
+    case "statementList": {
+      let result: Type = primitives.undefined;
+      for (const statement of node.statements) {
+        result = infer(statement, scope, c);
+      }
+      return result;
+    }
+    case "block": {
+      const inner = createScope(scope, c.level, c.nameScopes.get(node));
+      return infer(node.body, inner, c);
+    }
+    case "call":
+      return inferCall(node, scope, c);
+    case "function":
+      return inferFunction(node, scope, c);
+    case "if": {
+      checkCondition(node.condition, scope, c);
+      const then = infer(node.then, scope, c);
+      if (!node.else) {
+        return primitives.undefined;
+      }
+      const otherwise = infer(node.else, scope, c);
+      // Branches of an `if` whose value is unused can differ.
+      return tryUnify(c, then, otherwise) ? then : freshVar(c.level);
+    }
+    case "while":
+      checkCondition(node.condition, scope, c);
+      infer(node.body, scope, c);
+      return primitives.undefined;
+    case "for": {
+      const iterable = infer(node.iterable, scope, c);
+      const item = freshVar(c.level);
+      if (!tryUnify(c, iterable, { kind: "list", item })) {
+        report(
+          c,
+          `Cannot iterate over ${showType(iterable)}: it is not a list`,
+          node.iterable,
+        );
+      }
+      const inner = createScope(scope, c.level, c.nameScopes.get(node));
+      inner.bindings.set(node.variable.name, { kind: "value", type: item });
+      c.types?.set(node.variable, item);
+      infer(node.body, inner, c);
+      return primitives.undefined;
+    }
+    case "return": {
+      const value = node.value
+        ? infer(node.value, scope, c)
+        : primitives.undefined;
+      let lambda = scope;
+      while (!lambda.result) {
+        lambda = lambda.parent!;
+      }
+      lambda.returns = true;
+      if (!tryUnify(c, lambda.result, value)) {
+        const [valueName, resultName] = show(value, lambda.result);
+        report(
+          c,
+          `Cannot return ${valueName} from a function that returns ${resultName}`,
+          node,
+        );
+      }
+      return freshVar(c.level);
+    }
+    case "unary": {
+      const operand = infer(node.operand, scope, c);
+      if (node.operator.name === "!") {
+        if (!tryUnify(c, operand, primitives.boolean)) {
+          report(c, `Cannot apply ! to ${showType(operand)}`, node.operand);
+        }
+        return primitives.boolean;
+      }
+      if (!tryUnify(c, operand, primitives.number)) {
+        report(c, `Cannot negate ${showType(operand)}`, node.operand);
+      }
+      return primitives.number;
+    }
+    case "logical": {
+      const left = infer(node.left, scope, c);
+      const right = infer(node.right, scope, c);
+      if (!tryUnify(c, left, right)) {
+        const [leftName, rightName] = show(left, right);
+        report(
+          c,
+          `Cannot combine ${leftName} and ${rightName} with ${node.operator.name}`,
+          node,
+        );
+      }
+      return left;
+    }
+    case "list": {
+      const item = freshVar(c.level);
+      for (const itemNode of node.items) {
+        const type = infer(itemNode, scope, c);
+        if (!tryUnify(c, item, type)) {
+          const [expected, actual] = show(item, type);
+          report(
+            c,
+            `List items must all have the same type: ${expected} and ${actual}`,
+            itemNode,
+          );
+        }
+      }
+      return { kind: "list", item };
+    }
+    case "record": {
+      const fields = new Map<string, Type>();
+      for (const field of node.fields) {
+        fields.set(field.key.name, infer(field.value, scope, c));
+      }
+      return { kind: "record", fields };
+    }
+    case "member":
+      return inferMember(node, scope, c);
+    case "index":
+      return indexType(
+        infer(node.object, scope, c),
+        infer(node.index, scope, c),
+        node,
+        c,
+      );
+    default: {
+      const unexpected: never = node;
+      throw new Error(`internal error: can't check ${unexpected}`);
+    }
+  }
+}
+
+/**
+ * The binding `node` refers to. A name assigned later in an enclosing scope,
+ * as in mutual recursion, gets its binding on first use.
+ */
+function lookup(node: IdentifierNode, scope: Scope, c: Checker): Binding {
+  let includes = false;
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    const binding = s.bindings.get(node.name);
+    if (binding) {
+      return binding;
+    }
+    if (s.names?.definitions.has(node.name)) {
+      const forward: Binding = { kind: "value", type: freshVar(s.level) };
+      s.bindings.set(node.name, forward);
+      return forward;
+    }
+    includes ||= s.names?.includes ?? false;
+  }
+  if (!includes) {
+    report(c, `Undefined variable ${node.name}`, node);
+  }
+  return { kind: "value", type: freshVar(c.level) };
+}
+
+function bindingType(binding: Binding, c: Checker): Type {
+  if (binding.kind === "value") {
+    return instantiate(binding.type, c.level);
+  }
+  const fields = new Map<string, Type>();
+  for (const [name, exported] of binding.exports) {
+    fields.set(name, bindingType(exported, c));
+  }
+  return { kind: "record", fields };
+}
+
+/** The innermost scope that assigns `name`. */
+function ownerScope(scope: Scope, name: string): Scope {
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    if (s.names?.definitions.has(name)) {
+      return s;
+    }
+  }
+  return scope;
+}
+
+function inferAssignment(node: AssignmentNode, scope: Scope, c: Checker): Type {
+  const { target } = node;
+  if (target.type !== "identifier") {
+    const slot =
+      target.type === "member"
+        ? fieldType(infer(target.object, scope, c), target.property, c)
+        : indexType(
+            infer(target.object, scope, c),
+            infer(target.index, scope, c),
+            target,
+            c,
+          );
+    const value = infer(node.value, scope, c);
+    checkAssignable(slot, value, target, node, c);
+    return value;
+  }
+
+  const owner = ownerScope(scope, target.name);
+  const existing = owner.bindings.get(target.name);
+  if (
+    !existing &&
+    owner.names?.definitions.get(target.name)?.assignments === 1 &&
+    node.value.type === "function"
+  ) {
+    // Bound for recursive calls while the body is checked, then generic.
+    c.level++;
+    const self = freshVar(c.level);
+    owner.bindings.set(target.name, { kind: "value", type: self });
+    const type = infer(node.value, scope, c);
+    tryUnify(c, self, type);
+    c.level--;
+    const generalized = generalize(type, c.level);
+    owner.bindings.set(target.name, { kind: "value", type: generalized });
+    c.types?.set(target, generalized);
+    return type;
+  }
+
+  const value = infer(node.value, scope, c);
+  if (!existing || existing.kind === "namespace") {
+    owner.bindings.set(target.name, { kind: "value", type: value });
+  } else {
+    checkAssignable(bindingType(existing, c), value, target, node, c);
+  }
+  c.types?.set(target, existing?.kind === "value" ? existing.type : value);
+  return value;
+}
+
+function checkAssignable(
+  slot: Type,
+  value: Type,
+  target: ExpressionNode,
+  node: AssignmentNode,
+  c: Checker,
+) {
+  if (!tryUnify(c, slot, value)) {
+    const [valueName, slotName] = show(value, slot);
+    report(
+      c,
+      `Cannot assign ${valueName} to ${sourceText(target)}, which holds ${slotName}`,
+      node.value,
+    );
+  }
+}
+
+function checkCondition(node: ExpressionNode, scope: Scope, c: Checker) {
+  const type = infer(node, scope, c);
+  if (!tryUnify(c, type, primitives.boolean)) {
+    report(c, `Condition must be a boolean, not ${showType(type)}`, node);
+  }
+}
+
+function inferFunction(node: FunctionNode, scope: Scope, c: Checker): Type {
+  const inner = createScope(scope, c.level, c.nameScopes.get(node));
+  const result = freshVar(c.level);
+  inner.result = result;
+  const typeVars = new Map<string, TypeVar>();
+  const params = node.args.map((param) => {
+    const type = param.annotation
+      ? fromAnnotation(param.annotation, typeVars, c.level, (named) => {
+          report(c, `Unknown type ${named.name}`, named);
+          return freshVar(c.level);
+        })
+      : freshVar(c.level);
+    inner.bindings.set(param.name, { kind: "value", type });
+    c.types?.set(param, type);
+    return type;
+  });
+  const body = infer(node.body, inner, c);
+  // After a `return`, falling off the end is taken to be unreachable.
+  const fallsThrough = !(
+    inner.returns && resolve(body) === primitives.undefined
+  );
+  if (fallsThrough && !tryUnify(c, result, body)) {
+    const [bodyName, resultName] = show(body, result);
+    report(
+      c,
+      `This function returns ${resultName}, but its body ends with ${bodyName}`,
+      node.body,
+    );
+  }
+  return { kind: "function", params, result };
+}
+
+function inferCall(node: CallNode, scope: Scope, c: Checker): Type {
+  const args = node.args.map((arg) => infer(arg, scope, c));
+  if (isInclude(node)) {
+    if (args[0] && !tryUnify(c, args[0], primitives.string)) {
+      report(c, "include() path argument must be a string", node.args[0]!);
+    }
+    return freshVar(c.level);
+  }
+
+  const { callee } = node;
+  const binding =
+    callee.type === "identifier"
+      ? lookup(callee, scope, c)
+      : callee.type === "member"
+        ? namespaceMember(callee, scope, c)
+        : undefined;
+  const candidates =
+    binding?.kind === "value"
+      ? (binding.overloads ?? [binding.type]).map((type) =>
+          instantiate(type, c.level),
+        )
+      : [binding ? bindingType(binding, c) : infer(callee, scope, c)];
+  return applyCall(node, candidates, args, c);
+}
+
+/**
+ * The result of calling one of `candidates` with `args`. Reports an error if
+ * none of them fits.
+ */
+function applyCall(
+  node: CallNode,
+  candidates: Type[],
+  args: Type[],
+  c: Checker,
+): Type {
+  const name = sourceText(node.callee);
+  const isOperator = !/^[\p{L}_]/u.test(name);
+  const [first] = candidates;
+  if (candidates.length === 1 && first) {
+    const callee = resolve(first);
+    if (callee.kind === "var") {
+      const result = freshVar(c.level);
+      if (!tryUnify(c, callee, { kind: "function", params: args, result })) {
+        report(c, `Cannot call ${name} with itself as an argument`, node);
+      }
+      return result;
+    }
+    if (callee.kind !== "function") {
+      report(
+        c,
+        `Cannot call ${name}: it is ${showType(callee)}, not a function`,
+        node.callee,
+      );
+      return freshVar(c.level);
+    }
+  }
+
+  const functions = candidates
+    .map(resolve)
+    .filter((callee): callee is FunctionType => callee.kind === "function");
+  const matching = functions.filter(
+    (callee) => callee.params.length === args.length,
+  );
+  const [firstFunction] = functions;
+  if (matching.length === 0 && firstFunction) {
+    const counts = [
+      ...new Set(functions.map((callee) => callee.params.length)),
+    ].sort((a, b) => a - b);
+    report(
+      c,
+      `${name}() takes ${counts.join(" or ")} argument${counts.at(-1) === 1 ? "" : "s"} but was given ${args.length}`,
+      node,
+    );
+    firstFunction.params.forEach((param, i) => {
+      if (args[i]) {
+        tryUnify(c, param, args[i]);
+      }
+    });
+    return firstFunction.result;
+  }
+
+  for (const callee of matching) {
+    const mark = c.trail.length;
+    if (callee.params.every((param, i) => unify(c, param, args[i]!))) {
+      return callee.result;
+    }
+    rollback(c, mark);
+  }
+
+  if (isOperator) {
+    report(c, `Cannot apply ${name} to ${show(...args).join(" and ")}`, node);
+  } else if (matching.length === 1) {
+    const callee = matching[0]!;
+    callee.params.forEach((param, i) => {
+      if (!tryUnify(c, param, args[i]!)) {
+        const [expected, actual] = show(param, args[i]!);
+        report(
+          c,
+          `${name}() expects argument ${i + 1} to be ${expected}, not ${actual}`,
+          node.args[i]!,
+        );
+      }
+    });
+    return callee.result;
+  } else {
+    const names = show(...args, ...matching);
+    report(
+      c,
+      `${name}() can't take (${names.slice(0, args.length).join(", ")}); it takes ${names
+        .slice(args.length)
+        .map(paramList)
+        .join(" or ")}`,
+      node,
+    );
+  }
+  return freshVar(c.level);
+}
+
+/** `(A, (A) => B)` from `(A, (A) => B) => C`. */
+function paramList(signature: string): string {
+  let depth = 0;
+  for (let i = 0; i < signature.length; i++) {
+    if (signature[i] === "(") {
+      depth++;
+    } else if (signature[i] === ")" && --depth === 0) {
+      return signature.slice(0, i + 1);
+    }
+  }
+  return signature;
+}
+
+/** The binding `node` refers to if it reads an export of a namespace import. */
+function namespaceMember(
+  node: MemberNode,
+  scope: Scope,
+  c: Checker,
+): Binding | undefined {
+  if (node.object.type !== "identifier") {
+    return undefined;
+  }
+  const namespace = lookup(node.object, scope, c);
+  if (namespace.kind !== "namespace") {
+    return undefined;
+  }
+  const binding = namespace.exports.get(node.property.name);
+  if (!binding) {
+    report(
+      c,
+      `${namespace.source} has no export named ${node.property.name}`,
+      node.property,
+    );
+    return { kind: "value", type: freshVar(c.level) };
+  }
+  return binding;
+}
+
+function inferMember(node: MemberNode, scope: Scope, c: Checker): Type {
+  const binding = namespaceMember(node, scope, c);
+  if (binding) {
+    return bindingType(binding, c);
+  }
+  return fieldType(infer(node.object, scope, c), node.property, c);
+}
+
+function fieldType(object: Type, property: IdentifierNode, c: Checker): Type {
+  const field = freshVar(c.level);
+  const fields = new Map([[property.name, field]]);
+  if (
+    !tryUnify(c, object, { kind: "record", fields, rest: freshVar(c.level) })
+  ) {
+    const resolved = resolve(object);
+    report(
+      c,
+      resolved.kind === "record"
+        ? `No field ${property.name} in ${showType(resolved)}`
+        : `Cannot read field ${property.name} of ${showType(resolved)}`,
+      property,
+    );
+  }
+  return field;
+}
+
+/** Lists are indexed by number; records by string, with any field's type. */
+function indexType(
+  object: Type,
+  index: Type,
+  node: IndexNode,
+  c: Checker,
+): Type {
+  const item = freshVar(c.level);
+  if (resolve(object).kind === "record") {
+    if (!tryUnify(c, index, primitives.string)) {
+      const [objectName, indexName] = show(object, index);
+      report(c, `Cannot index ${objectName} with ${indexName}`, node);
+    }
+    return item;
+  }
+  if (!tryUnify(c, object, { kind: "list", item })) {
+    const [objectName, indexName] = show(object, index);
+    report(c, `Cannot index ${objectName} with ${indexName}`, node);
+  } else if (!tryUnify(c, index, primitives.number)) {
+    report(
+      c,
+      `List index must be a number, not ${showType(index)}`,
+      node.index,
+    );
+  }
+  return item;
+}
+
+function checkImport(node: ImportNode, scope: Scope, c: Checker) {
+  const source = node.source.value as string;
+  const exports = loadModule(node, c);
+  const unknown = (): Binding => ({ kind: "value", type: freshVar(c.level) });
+  if (node.namespace) {
+    scope.bindings.set(
+      node.namespace.name,
+      exports ? { kind: "namespace", source, exports } : unknown(),
+    );
+  }
+  for (const { imported, local } of node.specifiers) {
+    const binding = exports?.get(imported.name);
+    if (exports && !binding) {
+      report(c, `${source} has no export named ${imported.name}`, imported);
+    }
+    const bound = binding ?? unknown();
+    scope.bindings.set(local.name, bound);
+    if (bound.kind === "value") {
+      c.types?.set(local, bound.type);
+    }
+  }
+}
+
+/**
+ * Checks the module `node` imports the first time, reporting its errors, and
+ * returns the types of its exports. Returns `undefined` if it can't be read.
+ */
+function loadModule(node: ImportNode, c: Checker): Exports | undefined {
+  const dir = c.file ? path.dirname(c.file) : process.cwd();
+  const file = path.resolve(dir, node.source.value as string);
+  const cached = c.modules.get(file);
+  if (cached) {
+    return cached;
+  }
+  if (c.loading.includes(file)) {
+    const cycle = [...c.loading.slice(c.loading.indexOf(file)), file];
+    report(
+      c,
+      `Import cycle: ${cycle.map((f) => path.relative(process.cwd(), f)).join(" -> ")}`,
+      node.source,
+    );
+    return undefined;
+  }
+
+  let ast: ASTNode;
+  try {
+    const parsed = parseWithDiagnostics({
+      tokens: tokenize(c.readFile(file), file),
+    });
+    c.diagnostics.push(...parsed.diagnostics);
+    ast = parsed.ast;
+  } catch (e) {
+    const message = e instanceof ErrorWithSource ? e.args.message : `${e}`;
+    report(c, `Cannot read ${file}: ${message}`, node.source);
+    return undefined;
+  }
+
+  const outer = { file: c.file, level: c.level };
+  c.file = file;
+  c.level = 0;
+  c.loading.push(file);
+  let scope: Scope;
+  try {
+    scope = checkProgram(ast, c);
+  } finally {
+    c.loading.pop();
+    Object.assign(c, outer);
+  }
+
+  const exports: Exports = new Map();
+  if (ast.type === "statementList") {
+    for (const statement of ast.statements) {
+      if (statement.type === "export") {
+        const { name } = statement.declaration.target;
+        const binding = scope.bindings.get(name);
+        if (binding) {
+          exports.set(name, binding);
+        }
+      }
+    }
+  }
+  c.modules.set(file, exports);
+  return exports;
+}
+
+function freshVar(level: number): TypeVar {
+  return { kind: "var", level };
+}
+
+function resolve(type: Type): Type {
+  while (type.kind === "var" && type.ref) {
+    type = type.ref;
+  }
+  return type;
+}
+
+/**
+ * Makes `a` and `b` the same type, binding type variables in them as needed.
+ * On failure nothing is changed and it returns false.
+ */
+function tryUnify(c: Checker, a: Type, b: Type): boolean {
+  const mark = c.trail.length;
+  if (unify(c, a, b)) {
+    return true;
+  }
+  rollback(c, mark);
+  return false;
+}
+
+function rollback(c: Checker, mark: number) {
+  while (c.trail.length > mark) {
+    c.trail.pop()!();
+  }
+}
+
+/** Like `tryUnify`, but leaves a failed attempt half done. */
+function unify(c: Checker, a: Type, b: Type): boolean {
+  a = resolve(a);
+  b = resolve(b);
+  if (a === b) {
+    return true;
+  }
+  if (a.kind === "var") {
+    return bindVar(c, a, b);
+  }
+  if (b.kind === "var") {
+    return bindVar(c, b, a);
+  }
+  switch (a.kind) {
+    case "primitive":
+      return b.kind === "primitive" && a.name === b.name;
+    case "list":
+      return b.kind === "list" && unify(c, a.item, b.item);
+    case "record":
+      return b.kind === "record" && unifyRecords(c, a, b);
+    case "function":
+      return (
+        b.kind === "function" &&
+        a.params.length === b.params.length &&
+        a.params.every((param, i) => unify(c, param, b.params[i]!)) &&
+        unify(c, a.result, b.result)
+      );
+  }
+}
+
+function bindVar(c: Checker, v: TypeVar, type: Type): boolean {
+  if (!adjustLevels(c, v, type)) {
+    return false;
+  }
+  v.ref = type;
+  c.trail.push(() => {
+    v.ref = undefined;
+  });
+  return true;
+}
+
+/**
+ * Lowers the level of the variables in `type` to that of `v`, which is about
+ * to stand for it, so they aren't made generic while `v` is in scope. Fails
+ * if `type` contains `v`, as `x(x)` would need an infinite type.
+ */
+function adjustLevels(c: Checker, v: TypeVar, type: Type): boolean {
+  type = resolve(type);
+  switch (type.kind) {
+    case "var": {
+      if (type === v) {
+        return false;
+      }
+      const { level } = type;
+      if (level > v.level) {
+        type.level = v.level;
+        c.trail.push(() => {
+          type.level = level;
+        });
+      }
+      return true;
+    }
+    case "primitive":
+      return true;
+    case "list":
+      return adjustLevels(c, v, type.item);
+    case "record":
+      return (
+        [...type.fields.values()].every((field) => adjustLevels(c, v, field)) &&
+        (!type.rest || adjustLevels(c, v, type.rest))
+      );
+    case "function":
+      return (
+        type.params.every((param) => adjustLevels(c, v, param)) &&
+        adjustLevels(c, v, type.result)
+      );
+  }
+}
+
+/**
+ * A record's fields, including those its `rest` has been bound to, and the
+ * unbound variable it ends in if it is open.
+ */
+function recordFields(type: RecordType): {
+  fields: Map<string, Type>;
+  rest?: TypeVar;
+} {
+  const fields = new Map(type.fields);
+  let rest = type.rest && resolve(type.rest);
+  while (rest?.kind === "record") {
+    for (const [key, field] of rest.fields) {
+      fields.set(key, field);
+    }
+    rest = rest.rest && resolve(rest.rest);
+  }
+  return { fields, rest: rest as TypeVar | undefined };
+}
+
+function unifyRecords(c: Checker, a: RecordType, b: RecordType): boolean {
+  const left = recordFields(a);
+  const right = recordFields(b);
+  for (const [key, field] of left.fields) {
+    const other = right.fields.get(key);
+    if (other && !unify(c, field, other)) {
+      return false;
+    }
+  }
+  const onlyLeft = new Map(
+    [...left.fields].filter(([key]) => !right.fields.has(key)),
+  );
+  const onlyRight = new Map(
+    [...right.fields].filter(([key]) => !left.fields.has(key)),
+  );
+  if (left.rest && left.rest === right.rest) {
+    return onlyLeft.size === 0 && onlyRight.size === 0;
+  }
+  const rest =
+    left.rest && right.rest
+      ? freshVar(Math.min(left.rest.level, right.rest.level))
+      : undefined;
+  return (
+    extendRecord(c, left.rest, onlyRight, rest) &&
+    extendRecord(c, right.rest, onlyLeft, rest)
+  );
+}
+
+/**
+ * Binds the variable an open record ends in to `fields` followed by `rest`.
+ * A closed record can't gain fields.
+ */
+function extendRecord(
+  c: Checker,
+  row: TypeVar | undefined,
+  fields: Map<string, Type>,
+  rest: TypeVar | undefined,
+): boolean {
+  if (!row) {
+    return fields.size === 0;
+  }
+  if (fields.size === 0 && rest) {
+    return bindVar(c, row, rest);
+  }
+  return bindVar(c, row, { kind: "record", fields, rest });
+}
+
+/**
+ * Makes the variables in `type` that were created past `level` generic.
+ * Nothing outside the lambda just checked can refer to them.
+ */
+function generalize(type: Type, level: number): Type {
+  const t = resolve(type);
+  switch (t.kind) {
+    case "var":
+      if (t.level > level) {
+        t.level = generic;
+      }
+      break;
+    case "primitive":
+      break;
+    case "list":
+      generalize(t.item, level);
+      break;
+    case "record":
+      t.fields.forEach((field) => generalize(field, level));
+      if (t.rest) {
+        generalize(t.rest, level);
+      }
+      break;
+    case "function":
+      t.params.forEach((param) => generalize(param, level));
+      generalize(t.result, level);
+      break;
+  }
+  return type;
+}
+
+/** A copy of `type` with fresh variables in place of the generic ones. */
+function instantiate(
+  type: Type,
+  level: number,
+  copies = new Map<TypeVar, TypeVar>(),
+): Type {
+  const t = resolve(type);
+  switch (t.kind) {
+    case "var": {
+      if (t.level !== generic) {
+        return t;
+      }
+      let copy = copies.get(t);
+      if (!copy) {
+        copy = freshVar(level);
+        copies.set(t, copy);
+      }
+      return copy;
+    }
+    case "primitive":
+      return t;
+    case "list":
+      return { kind: "list", item: instantiate(t.item, level, copies) };
+    case "record": {
+      const fields = new Map<string, Type>();
+      for (const [key, field] of t.fields) {
+        fields.set(key, instantiate(field, level, copies));
+      }
+      return {
+        kind: "record",
+        fields,
+        rest: t.rest && instantiate(t.rest, level, copies),
+      };
+    }
+    case "function":
+      return {
+        kind: "function",
+        params: t.params.map((param) => instantiate(param, level, copies)),
+        result: instantiate(t.result, level, copies),
+      };
+  }
+}
+
+/** A generic type from a signature like `([A], (A) => B) => [B]`. */
+function parseSignature(signature: string): Type {
+  return fromAnnotation(parseType(signature), new Map(), generic, (named) => {
+    throw new Error(`Unknown type ${named.name} in ${signature}`);
+  });
+}
+
+/**
+ * The type an annotation describes. Single capital letters are type
+ * variables, the same in every annotation of one lambda. Records are open:
+ * `{x: number}` is any record with a number `x`.
+ */
+function fromAnnotation(
+  node: TypeNode,
+  typeVars: Map<string, TypeVar>,
+  level: number,
+  unknownType: (node: NamedTypeNode) => Type,
+): Type {
+  const convert = (node: TypeNode) =>
+    fromAnnotation(node, typeVars, level, unknownType);
+  switch (node.type) {
+    case "namedType": {
+      if (Object.prototype.hasOwnProperty.call(primitives, node.name)) {
+        return primitives[node.name as keyof typeof primitives];
+      }
+      if (!/^[A-Z]$/.test(node.name)) {
+        return unknownType(node);
+      }
+      let typeVar = typeVars.get(node.name);
+      if (!typeVar) {
+        typeVar = freshVar(level);
+        typeVars.set(node.name, typeVar);
+      }
+      return typeVar;
+    }
+    case "listType":
+      return { kind: "list", item: convert(node.item) };
+    case "recordType":
+      return {
+        kind: "record",
+        fields: new Map(
+          node.fields.map(({ key, value }) => [key.name, convert(value)]),
+        ),
+        rest: freshVar(level),
+      };
+    case "functionType":
+      return {
+        kind: "function",
+        params: node.params.map(convert),
+        result: convert(node.result),
+      };
+  }
+}
+
+function showType(type: Type): string {
+  return show(type)[0]!;
+}
+
+/**
+ * `types` as they are written in annotations. Variables are named `A`, `B`
+ * and so on, consistently across all of them.
+ */
+function show(...types: Type[]): string[] {
+  const names = new Map<TypeVar, string>();
+  const name = (type: Type): string => {
+    const t = resolve(type);
+    switch (t.kind) {
+      case "var": {
+        let varName = names.get(t);
+        if (!varName) {
+          const n = names.size;
+          varName = n < 26 ? String.fromCharCode(65 + n) : `T${n}`;
+          names.set(t, varName);
+        }
+        return varName;
+      }
+      case "primitive":
+        return t.name;
+      case "list":
+        return `[${name(t.item)}]`;
+      case "record": {
+        const { fields, rest } = recordFields(t);
+        const parts = [...fields].map(
+          ([key, field]) => `${key}: ${name(field)}`,
+        );
+        if (rest) {
+          parts.push("...");
+        }
+        return `{${parts.join(", ")}}`;
+      }
+      case "function":
+        return `(${t.params.map(name).join(", ")}) => ${name(t.result)}`;
+    }
+  };
+  return types.map(name);
+}
@@ -0,0 +1,443 @@
+import fs from "fs";
+import path from "path";
+import process from "process";
+import { inspect } from "util";
+import { check } from "./check";
+import { debugAdapter, debugInTerminal } from "./debug";
+import { formatSource } from "./fmt";
+import { findLintConfig, lint, loadLintConfig } from "./lint";
+import { startLanguageServer } from "./lsp";
+import { startRepl } from "./repl";
+import {
+  findTestFiles,
+  formatJUnit,
+  formatResults,
+  formatTap,
+  isTestFile,
+  runTestFile,
+  testGlobalTypes,
+} from "./testing";
+import {
+  ASTNode,
+  ErrorWithSource,
+  ExitSignal,
+  Token,
+  createEvalState,
+  defaultMaxDepth,
+  evaluate,
+  formatAST,
+  formatDiagnostics,
+  formatToken,
+  parse,
+  tokenize,
+} from "./tinyfn";
+
+const EXIT_RUNTIME_ERROR = 1;
+const EXIT_PARSE_ERROR = 2;
+const EXIT_USAGE = 64;
+
+const usage = `\
+usage: tinyfn [flags] run <file> [args...]
+       tinyfn [flags] -e <source> [args...]
+       tinyfn [flags]
+       tinyfn check <file>
+       tinyfn fmt [--check] <files...>
+       tinyfn lint <files...>
+       tinyfn test [--tap | --junit] [paths...]
+       tinyfn lsp
+       tinyfn debug <file> [args...]
+       tinyfn debug --dap
+
+With no file or -e, starts a REPL on a terminal or runs the program on stdin.
+Arguments after the file or source are available to the program as \`args\`.
+check reports type errors in a program without running it. fmt rewrites files
+in the standard style, or with --check lists the files that aren't in it.
+lint warns about likely mistakes, with rules set in the nearest .tinyfnlint.json.
+test runs the tests in the *.test.tfn files under paths (default .), and reports
+them as a list, TAP or JUnit XML.
+lsp runs a language server for editors on stdin and stdout. debug runs a
+program under a debugger that takes commands at a prompt (try help), or with
+--dap speaks the Debug Adapter Protocol on stdin and stdout.
+
+flags:
+  --dump-tokens   print the tokens before running
+  --dump-ast      print the AST before running
+  --trace-parse   print each construct as the parser enters it
+  --compile       compile the program to closures instead of walking the AST
+  --max-depth <n> fail with a stack overflow past n nested calls (default ${defaultMaxDepth})
+  --print-result  print the value of the last statement
+  -h, --help      show this message
+
+exit codes: 0 ok, ${EXIT_RUNTIME_ERROR} runtime error or failed check, fmt --check, lint or test, ${EXIT_PARSE_ERROR} parse error, ${EXIT_USAGE} bad usage,
+or the code passed to exit()`;
+
+type CommandLine = {
+  command: "run" | "check" | "fmt" | "lint" | "test" | "lsp" | "debug";
+  source?: { type: "file"; path: string } | { type: "eval"; src: string };
+  args: string[];
+  /** For fmt, only report files that need formatting. */
+  checkFormat: boolean;
+  /** For test, the report format if not a list for people. */
+  testFormat?: "tap" | "junit";
+  dumpTokens: boolean;
+  dumpAST: boolean;
+  traceParse: boolean;
+  compile: boolean;
+  maxDepth?: number;
+  printResult: boolean;
+  help: boolean;
+};
+
+class UsageError extends Error {}
+
+function parseCommandLine(argv: string[]): CommandLine {
+  const result: CommandLine = {
+    command: "run",
+    args: [],
+    checkFormat: false,
+    dumpTokens: false,
+    dumpAST: false,
+    traceParse: false,
+    compile: false,
+    printResult: false,
+    help: false,
+  };
+
+  let i = 0;
+  while (i < argv.length && !result.source) {
+    const arg = argv[i++]!;
+    switch (arg) {
+      case "run":
+      case "check":
+      case "debug": {
+        if (arg === "debug" && argv[i] === "--dap") {
+          // The client says which program to run.
+          result.command = arg;
+          return result;
+        }
+        const path = argv[i++];
+        if (path === undefined) {
+          throw new UsageError(`${arg} needs a file`);
+        }
+        result.command = arg;
+        result.source = { type: "file", path };
+        break;
+      }
+      case "fmt":
+      case "lint":
+        result.command = arg;
+        for (const arg of argv.slice(i)) {
+          if (arg === "--check" && result.command === "fmt") {
+            result.checkFormat = true;
+          } else {
+            result.args.push(arg);
+          }
+        }
+        if (result.args.length === 0) {
+          throw new UsageError(`${arg} needs at least one file`);
+        }
+        return result;
+      case "test":
+        result.command = arg;
+        for (const arg of argv.slice(i)) {
+          if (arg === "--tap" || arg === "--junit") {
+            result.testFormat = arg === "--tap" ? "tap" : "junit";
+          } else {
+            result.args.push(arg);
+          }
+        }
+        return result;
+      case "lsp":
+        result.command = arg;
+        return result;
+      case "-e":
+      case "--eval": {
+        const src = argv[i++];
+        if (src === undefined) {
+          throw new UsageError(`${arg} needs source code`);
+        }
+        result.source = { type: "eval", src };
+        break;
+      }
+      case "--dump-tokens":
+        result.dumpTokens = true;
+        break;
+      case "--dump-ast":
+        result.dumpAST = true;
+        break;
+      case "--trace-parse":
+        result.traceParse = true;
+        break;
+      case "--compile":
+        result.compile = true;
+        break;
+      case "--max-depth": {
+        const depth = Number(argv[i++]);
+        if (!Number.isInteger(depth) || depth < 1) {
+          throw new UsageError("--max-depth needs a positive whole number");
+        }
+        result.maxDepth = depth;
+        break;
+      }
+      case "--print-result":
+        result.printResult = true;
+        break;
+      case "-h":
+      case "--help":
+        result.help = true;
+        break;
+      default:
+        throw new UsageError(`Unknown argument ${arg}`);
+    }
+  }
+  result.args = argv.slice(i);
+  return result;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CommandLine;
+  try {
+    options = parseCommandLine(argv);
+  } catch (e) {
+    if (e instanceof UsageError) {
+      console.error(`${e.message}\n\n${usage}`);
+      return EXIT_USAGE;
+    }
+    throw e;
+  }
+
+  if (options.help) {
+    console.log(usage);
+    return 0;
+  }
+
+  if (options.command === "fmt") {
+    return formatFiles(options.args, options.checkFormat);
+  }
+  if (options.command === "lint") {
+    return lintFiles(options.args);
+  }
+  if (options.command === "test") {
+    return runTests(options.args, options.testFormat);
+  }
+  if (options.command === "debug") {
+    return options.source?.type === "file"
+      ? debugInTerminal({ file: options.source.path, args: options.args })
+      : debugAdapter({});
+  }
+  if (options.command === "lsp") {
+    const code = await startLanguageServer({
+      input: process.stdin,
+      output: process.stdout,
+    });
+    // The client may keep its end of stdin open after `exit`.
+    process.stdin.destroy();
+    return code;
+  }
+
+  const runOptions = {
+    globals: { args: options.args },
+    file: options.source?.type === "file" ? options.source.path : undefined,
+    compile: options.compile,
+    maxDepth: options.maxDepth,
+  };
+
+  let src: string;
+  if (options.source?.type === "eval") {
+    src = options.source.src;
+  } else if (options.source?.type === "file") {
+    try {
+      src = fs.readFileSync(options.source.path, "utf-8");
+    } catch (e) {
+      console.error(`Cannot read ${options.source.path}: ${e}`);
+      return EXIT_USAGE;
+    }
+  } else if (process.stdin.isTTY) {
+    return startRepl({
+      input: process.stdin,
+      output: process.stdout,
+      ...runOptions,
+    });
+  } else {
+    src = fs.readFileSync(process.stdin.fd, "utf-8");
+  }
+
+  let ast: ASTNode;
+  try {
+    const tokens: Token[] = tokenize(
+      src,
+      runOptions.file && path.resolve(runOptions.file),
+    );
+    if (options.dumpTokens) {
+      console.log(tokens.map(formatToken).join("\n"));
+    }
+    ast = parse({
+      tokens,
+      trace: options.traceParse ? (message) => console.log(message) : undefined,
+    });
+    if (options.dumpAST) {
+      console.log(formatAST(ast));
+    }
+  } catch (e) {
+    if (e instanceof ErrorWithSource) {
+      console.error(e.message);
+      return EXIT_PARSE_ERROR;
+    }
+    throw e;
+  }
+
+  if (options.command === "check") {
+    const diagnostics = check(ast, {
+      file: runOptions.file,
+      globals: {
+        args: "[string]",
+        ...(runOptions.file && isTestFile(runOptions.file)
+          ? testGlobalTypes
+          : {}),
+      },
+    });
+    if (diagnostics.length > 0) {
+      console.error(formatDiagnostics(diagnostics));
+      return EXIT_RUNTIME_ERROR;
+    }
+    return 0;
+  }
+
+  try {
+    const result = evaluate(ast, createEvalState(runOptions));
+    if (options.printResult) {
+      console.log(inspect(result));
+    }
+  } catch (e) {
+    if (e instanceof ExitSignal) {
+      return e.code;
+    }
+    if (e instanceof ErrorWithSource) {
+      console.error(e.message);
+      return EXIT_RUNTIME_ERROR;
+    }
+    throw e;
+  }
+  return 0;
+}
+
+/**
+ * Rewrites each of `files` in the standard style, or if `checkOnly`, prints
+ * the names of those that aren't in it.
+ */
+function formatFiles(files: string[], checkOnly: boolean): number {
+  let code = 0;
+  for (const file of files) {
+    let src: string;
+    try {
+      src = fs.readFileSync(file, "utf-8");
+    } catch (e) {
+      console.error(`Cannot read ${file}: ${e}`);
+      code = EXIT_USAGE;
+      continue;
+    }
+    let formatted: string;
+    try {
+      formatted = formatSource(src, { file: path.resolve(file) });
+    } catch (e) {
+      if (e instanceof ErrorWithSource) {
+        console.error(e.message);
+        code = Math.max(code, EXIT_PARSE_ERROR);
+        continue;
+      }
+      throw e;
+    }
+    if (formatted === src) {
+      continue;
+    }
+    if (checkOnly) {
+      console.log(file);
+      code = Math.max(code, EXIT_RUNTIME_ERROR);
+    } else {
+      fs.writeFileSync(file, formatted);
+    }
+  }
+  return code;
+}
+
+/** Prints lint warnings for each of `files`. */
+function lintFiles(files: string[]): number {
+  let code = 0;
+  for (const file of files) {
+    let ast: ASTNode;
+    let options;
+    try {
+      const config = findLintConfig(path.dirname(file));
+      options = config ? loadLintConfig(config) : {};
+      ast = parse({
+        tokens: tokenize(fs.readFileSync(file, "utf-8"), path.resolve(file)),
+      });
+    } catch (e) {
+      if (e instanceof ErrorWithSource) {
+        console.error(e.message);
+        code = Math.max(code, EXIT_PARSE_ERROR);
+        continue;
+      }
+      console.error(e instanceof Error ? e.message : e);
+      return EXIT_USAGE;
+    }
+    const warnings = lint(ast, options);
+    if (warnings.length > 0) {
+      console.error(
+        formatDiagnostics(
+          warnings.map(({ rule, message, loc }) => ({
+            message: `${message} (${rule})`,
+            loc,
+          })),
+        ),
+      );
+      code = Math.max(code, EXIT_RUNTIME_ERROR);
+    }
+  }
+  return code;
+}
+
+/** Runs the tests in `paths` and prints a report in `format`. */
+function runTests(paths: string[], format?: "tap" | "junit"): number {
+  let files: string[];
+  try {
+    files = findTestFiles(paths.length > 0 ? paths : ["."]);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    return EXIT_USAGE;
+  }
+  if (files.length === 0) {
+    console.error(`No *.test.tfn files in ${paths.join(" ") || "."}`);
+    return EXIT_RUNTIME_ERROR;
+  }
+  const results = files.flatMap(runTestFile);
+  const report =
+    format === "tap"
+      ? formatTap(results)
+      : format === "junit"
+        ? formatJUnit(results)
+        : formatResults(results);
+  console.log(report);
+  return results.every((result) => result.outcome === "pass")
+    ? 0
+    : EXIT_RUNTIME_ERROR;
+}
+
+// A reader that stops early, like `head`, closes the pipe on us. What it
+// didn't read isn't wanted, so that isn't an error.
+process.stdout.on("error", (e: NodeJS.ErrnoException) => {
+  if (e.code !== "EPIPE") {
+    throw e;
+  }
+  process.exit();
+});
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((e) => {
+    // main reports errors in tinyfn code; this catches the rest, e.g. unreadable stdin.
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = EXIT_RUNTIME_ERROR;
+  });
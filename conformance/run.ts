@@ -0,0 +1,151 @@
+/**
+ * Runs the programs in conformance/cases and the example programs, and
+ * compares what each prints, returns or fails with against its file in
+ * conformance/expected. Every program runs under both backends, which must
+ * agree. Exits with 1 if anything differs.
+ *
+ *   pnpm conformance [--update] [names...]
+ *
+ * --update rewrites the expected files from what the programs do now; check
+ * the diff before committing it. Names pick programs, like `fib` or `strings`.
+ */
+import fs from "fs";
+import path from "path";
+import { inspect } from "util";
+import {
+  ErrorWithSource,
+  ExitSignal,
+  createEvalState,
+  evaluate,
+  parse,
+  tokenize,
+} from "../tinyfn";
+
+const root = path.join(__dirname, "..");
+const casesDir = path.join(__dirname, "cases");
+const expectedDir = path.join(__dirname, "expected");
+
+/** Programs at the top of the repo that aren't tests. */
+const examples = fs
+  .readdirSync(root)
+  .filter((name) => name.endsWith(".tfn") && !name.endsWith(".test.tfn"))
+  .map((name) => path.join(root, name));
+
+const cases = fs
+  .readdirSync(casesDir)
+  .filter((name) => name.endsWith(".tfn"))
+  .map((name) => path.join(casesDir, name));
+
+function expectedFile(program: string): string {
+  return path.join(expectedDir, `${path.basename(program, ".tfn")}.expected`);
+}
+
+/**
+ * Everything `program` does, as the expected files record it: what it
+ * printed to stdout and stderr, then its value, error or exit code. Errors
+ * keep their excerpts and carets, without the terminal colors.
+ */
+function runProgram(program: string, compile: boolean): string {
+  let stdout = "";
+  let stderr = "";
+  let outcome: string;
+  try {
+    const ast = parse({
+      tokens: tokenize(fs.readFileSync(program, "utf-8"), program),
+    });
+    const state = createEvalState({
+      file: program,
+      compile,
+      globals: { args: [] },
+      stdout: (text) => {
+        stdout += text;
+      },
+      stderr: (text) => {
+        stderr += text;
+      },
+    });
+    outcome = `--- value\n${inspect(evaluate(ast, state))}\n`;
+  } catch (e) {
+    if (e instanceof ExitSignal) {
+      outcome = `--- exit\n${e.code}\n`;
+    } else if (e instanceof ErrorWithSource) {
+      outcome = `--- error\n${e.message.replace(/\x1b\[\d+m/g, "")}\n`;
+    } else {
+      throw e;
+    }
+  }
+  return [
+    stdout && `--- stdout\n${stdout}${stdout.endsWith("\n") ? "" : "\n"}`,
+    stderr && `--- stderr\n${stderr}${stderr.endsWith("\n") ? "" : "\n"}`,
+    outcome,
+  ].join("");
+}
+
+/** The lines of `expected` and `actual` from the first that differs on. */
+function showDifference(expected: string, actual: string): string {
+  const expectedLines = expected.split("\n");
+  const actualLines = actual.split("\n");
+  let i = 0;
+  while (expectedLines[i] === actualLines[i]) {
+    i++;
+  }
+  const excerpt = (lines: string[], sign: string) =>
+    lines
+      .slice(i, i + 5)
+      .map((line) => `    ${sign} ${line}`)
+      .join("\n");
+  return [
+    `  from line ${i + 1}:`,
+    excerpt(expectedLines, "-"),
+    excerpt(actualLines, "+"),
+  ].join("\n");
+}
+
+function main(argv: string[]) {
+  const update = argv.includes("--update");
+  const names = argv.filter((arg) => arg !== "--update");
+  const programs = [...examples, ...cases].filter(
+    (program) =>
+      names.length === 0 || names.includes(path.basename(program, ".tfn")),
+  );
+  // Error messages show paths relative to the working directory.
+  process.chdir(root);
+
+  let failures = 0;
+  for (const program of programs) {
+    const name = path.relative(root, program);
+    const walked = runProgram(program, false);
+    const compiled = runProgram(program, true);
+    if (compiled !== walked) {
+      failures++;
+      console.log(`FAIL ${name}: the backends differ`);
+      console.log(showDifference(walked, compiled));
+      continue;
+    }
+    const file = expectedFile(program);
+    if (update) {
+      fs.writeFileSync(file, walked);
+      console.log(`wrote ${path.relative(root, file)}`);
+      continue;
+    }
+    const expected = fs.existsSync(file)
+      ? fs.readFileSync(file, "utf-8")
+      : undefined;
+    if (expected === walked) {
+      console.log(`ok   ${name}`);
+    } else if (expected === undefined) {
+      failures++;
+      console.log(`FAIL ${name}: no ${path.relative(root, file)}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}`);
+      console.log(showDifference(expected, walked));
+    }
+  }
+  if (failures > 0) {
+    console.log(`\n${failures} of ${programs.length} failed`);
+    process.exitCode = 1;
+  }
+}
+
+main(process.argv.slice(2));
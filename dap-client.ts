@@ -0,0 +1,283 @@
+/**
+ * A scripted Debug Adapter Protocol session with `tinyfn debug --dap`: runs
+ * fib.tfn, stops at a breakpoint, steps, inspects variables and evaluates
+ * expressions, checking each answer. Exits with 1 if any answer is wrong.
+ *
+ *   pnpm dap:client
+ */
+import { ChildProcess, spawn } from "child_process";
+import path from "path";
+
+type Message = {
+  seq: number;
+  type: "request" | "response" | "event";
+  request_seq?: number;
+  success?: boolean;
+  message?: string;
+  event?: string;
+  body?: unknown;
+};
+type Response<T> = { success: boolean; message?: string; body: T };
+type StackFrame = { name: string; line: number; source?: { path: string } };
+type Variable = { name: string; value: string };
+
+/** How long to wait for the adapter before giving up on a step. */
+const timeoutMs = 10000;
+
+class DapClient {
+  private adapter: ChildProcess;
+  private buffer = Buffer.alloc(0);
+  private seq = 1;
+  private pending = new Map<number, (message: Message) => void>();
+  private events: Message[] = [];
+  private waiting?: { event: string; resolve: (body: unknown) => void };
+  exited: Promise<number | null>;
+
+  constructor() {
+    this.adapter = spawn(
+      process.execPath,
+      [...process.execArgv, path.join(__dirname, "cli.ts"), "debug", "--dap"],
+      { stdio: ["pipe", "pipe", "inherit"] },
+    );
+    this.adapter.stdout!.on("data", (chunk: Buffer) => this.receive(chunk));
+    this.exited = new Promise((resolve) => this.adapter.on("exit", resolve));
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) {
+        return;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+      const length = Number(/Content-Length: *(\d+)/i.exec(header)?.[1]);
+      const bodyStart = headerEnd + 4;
+      if (this.buffer.length < bodyStart + length) {
+        return;
+      }
+      const message = JSON.parse(
+        this.buffer.subarray(bodyStart, bodyStart + length).toString("utf-8"),
+      ) as Message;
+      this.buffer = this.buffer.subarray(bodyStart + length);
+      if (message.type === "response") {
+        this.pending.get(message.request_seq!)?.(message);
+        this.pending.delete(message.request_seq!);
+      } else if (this.waiting && this.waiting.event === message.event) {
+        this.waiting.resolve(message.body);
+        this.waiting = undefined;
+      } else {
+        this.events.push(message);
+      }
+    }
+  }
+
+  request<T>(command: string, args?: unknown): Promise<Response<T>> {
+    const seq = this.seq++;
+    const json = JSON.stringify({
+      seq,
+      type: "request",
+      command,
+      arguments: args,
+    });
+    this.adapter.stdin!.write(
+      `Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`,
+    );
+    return withTimeout(
+      command,
+      new Promise((resolve) =>
+        this.pending.set(seq, (message) => resolve(message as Response<T>)),
+      ),
+    );
+  }
+
+  /** Writes `text` to the adapter as it is, framed or not. */
+  write(text: string) {
+    this.adapter.stdin!.write(text);
+  }
+
+  /** The body of the next `event` from the adapter. */
+  event<T>(event: string): Promise<T> {
+    const index = this.events.findIndex((e) => e.event === event);
+    if (index >= 0) {
+      return Promise.resolve(this.events.splice(index, 1)[0]!.body as T);
+    }
+    return withTimeout(
+      event,
+      new Promise(
+        (resolve) =>
+          (this.waiting = { event, resolve: (body) => resolve(body as T) }),
+      ),
+    );
+  }
+
+  /** The text of the output events received so far. */
+  output(): string {
+    return this.events
+      .filter((e) => e.event === "output")
+      .map((e) => (e.body as { output: string }).output)
+      .join("");
+  }
+
+  kill() {
+    this.adapter.kill();
+  }
+}
+
+function withTimeout<T>(what: string, promise: Promise<T>): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) =>
+      setTimeout(
+        () => reject(new Error(`No answer to ${what}`)),
+        timeoutMs,
+      ).unref(),
+    ),
+  ]);
+}
+
+const program = path.join(__dirname, "fib.tfn");
+
+let failures = 0;
+
+function expect(step: string, ok: boolean, actual: unknown) {
+  if (ok) {
+    console.log(`ok   ${step}`);
+  } else {
+    failures++;
+    console.log(`FAIL ${step}: got ${JSON.stringify(actual)}`);
+  }
+}
+
+async function stack(client: DapClient): Promise<StackFrame[]> {
+  const trace = await client.request<{ stackFrames: StackFrame[] }>(
+    "stackTrace",
+    { threadId: 1 },
+  );
+  return trace.body.stackFrames;
+}
+
+async function locals(client: DapClient, frameId: number) {
+  const { body } = await client.request<{
+    scopes: Array<{ name: string; variablesReference: number }>;
+  }>("scopes", { frameId });
+  const scope = body.scopes.find((s) => s.name === "Locals");
+  if (!scope) {
+    return [];
+  }
+  const variables = await client.request<{ variables: Variable[] }>(
+    "variables",
+    { variablesReference: scope.variablesReference },
+  );
+  return variables.body.variables.map((v) => `${v.name} = ${v.value}`);
+}
+
+async function main() {
+  const client = new DapClient();
+  try {
+    client.write("Content-Length: 5\r\n\r\n{bad}");
+    client.write("Content-Type: text/plain\r\n\r\n");
+    const init = await client.request<{
+      supportsConfigurationDoneRequest?: boolean;
+    }>("initialize", { adapterID: "tinyfn" });
+    await client.event("initialized");
+    expect("malformed messages are skipped", init.success, init);
+    expect(
+      "initialize asks for configurationDone",
+      init.body.supportsConfigurationDoneRequest === true,
+      init,
+    );
+
+    await client.request("launch", { program });
+    const set = await client.request<{
+      breakpoints: Array<{ verified: boolean }>;
+    }>("setBreakpoints", {
+      source: { path: program },
+      breakpoints: [{ line: 2 }, { line: 5 }],
+    });
+    expect(
+      "breakpoints on blank lines are not verified",
+      set.body.breakpoints.map((b) => b.verified).join() === "true,false",
+      set.body,
+    );
+
+    await client.request("configurationDone");
+    const stopped = await client.event<{ reason: string }>("stopped");
+    expect("stops at the breakpoint", stopped.reason === "breakpoint", stopped);
+
+    const frames = await stack(client);
+    expect(
+      "stack trace has fib called from the top level",
+      frames.map((f) => `${f.name}:${f.line}`).join() === "fib:2,<top level>:7",
+      frames,
+    );
+    const vars = await locals(client, 1);
+    expect("locals show the argument", vars.join() === "i = 8", vars);
+
+    const evaluated = await client.request<{ result: string }>("evaluate", {
+      expression: "fib(i - 2) * 2",
+      frameId: 1,
+    });
+    expect(
+      "evaluate runs in the paused frame",
+      evaluated.body?.result === "16",
+      evaluated,
+    );
+    const failed = await client.request("evaluate", {
+      expression: "nope",
+      frameId: 1,
+    });
+    expect(
+      "evaluate reports errors",
+      !failed.success && failed.message === "Undefined variable nope",
+      failed,
+    );
+
+    await client.request("setBreakpoints", {
+      source: { path: program },
+      breakpoints: [],
+    });
+    await client.request("stepIn", { threadId: 1 });
+    await client.event("stopped");
+    const inner = await stack(client);
+    expect(
+      "step in goes into the lambda if() calls",
+      inner.map((f) => `${f.name}:${f.line}`).join() ===
+        "<lambda>:2,if:0,fib:2,<top level>:7",
+      inner,
+    );
+
+    await client.request("stepOut", { threadId: 1 });
+    await client.event("stopped");
+    const outer = await stack(client);
+    const after = await locals(client, 1);
+    expect(
+      "step out comes back to fib's next statement",
+      outer[0]?.line === 3 && after.includes("result = 21"),
+      { outer, after },
+    );
+
+    await client.request("continue", { threadId: 1 });
+    const exited = await client.event<{ exitCode: number }>("exited");
+    await client.event("terminated");
+    expect("the program runs to the end", exited.exitCode === 0, exited);
+    expect(
+      "program output arrives as output events",
+      client.output() === "fib(8) = \n21\n",
+      client.output(),
+    );
+
+    await client.request("disconnect");
+    const code = await withTimeout("disconnect", client.exited);
+    expect("the adapter exits after disconnect", code === 0, code);
+  } catch (e) {
+    failures++;
+    console.log(`FAIL ${e instanceof Error ? e.message : e}`);
+    client.kill();
+  }
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,791 @@
+import fs from "fs";
+import path from "path";
+import { inspect } from "util";
+import {
+  ASTNode,
+  DebugHook,
+  Environment,
+  ErrorWithSource,
+  EvalState,
+  ExitSignal,
+  StackFrame,
+  childNodes,
+  createEvalState,
+  evaluate,
+  parse,
+  tokenize,
+} from "./tinyfn";
+
+export type DebugOptions = {
+  /** The program to debug. */
+  file: string;
+  /** Passed to the program as `args`. */
+  args?: string[];
+  /** File descriptors the debugger reads commands from and writes to. */
+  input?: number;
+  output?: number;
+};
+
+/** Why the program paused. */
+type PauseReason = "entry" | "breakpoint" | "step";
+
+/** How a paused program goes on. */
+type Resume = "continue" | "stepIn" | "stepOver" | "stepOut";
+
+/** A call in progress while paused, with the statement it is running. */
+type PausedFrame = {
+  name: string;
+  /** Missing for builtins, which have no statements. */
+  node?: ASTNode;
+  state?: EvalState;
+};
+
+/** A group of variables visible from a frame. */
+type VariableScope = { name: string; variables: Map<string, unknown> };
+
+type Debugger = {
+  /** Line numbers with a breakpoint, by absolute file path. */
+  breakpoints: Map<string, Set<number>>;
+  hook: DebugHook;
+  /** Makes the program pause before its first statement. */
+  pauseAtStart: () => void;
+  /** Evaluates `src` where `frame` is paused, without stopping inside. */
+  evaluateIn: (src: string, frame: PausedFrame) => unknown;
+};
+
+/** Thrown from a pause to end the program when the user quits. */
+class QuitSignal {}
+
+/**
+ * Tracks breakpoints and stepping for a run. The hook calls `pause` whenever
+ * the program should stop and goes on as the result says.
+ */
+function createDebugger(
+  pause: (reason: PauseReason, frames: PausedFrame[]) => Resume,
+): Debugger {
+  const breakpoints = new Map<string, Set<number>>();
+  /** For each depth of the call stack, the last statement run there. */
+  const recent: Array<
+    { node: ASTNode; state: EvalState; frame?: StackFrame } | undefined
+  > = [];
+  // Statements at this call depth or shallower stop the program.
+  let stepDepth = -Infinity;
+  let atStart = false;
+  let evaluating = false;
+
+  const hook: DebugHook = (node, state) => {
+    if (evaluating || node.type === "comment") {
+      return;
+    }
+    const { stack } = state;
+    const depth = stack.length;
+    recent.length = depth + 1;
+    recent[depth] = { node, state, frame: stack[depth - 1] };
+
+    let reason: PauseReason | undefined;
+    if (depth <= stepDepth) {
+      reason = atStart ? "entry" : "step";
+      atStart = false;
+    } else if (breakpoints.get(node.loc.file ?? "")?.has(node.loc.line0)) {
+      reason = "breakpoint";
+    }
+    if (!reason) {
+      return;
+    }
+
+    const frames: PausedFrame[] = [];
+    for (let i = depth; i >= 0; i--) {
+      const entry = recent[i];
+      // An entry is stale if the call it was recorded in has returned.
+      const current = entry && entry.frame === stack[i - 1];
+      frames.push({
+        name: i === 0 ? "<top level>" : stack[i - 1]!.name,
+        node: current ? entry.node : undefined,
+        state: current ? entry.state : undefined,
+      });
+    }
+    const resume = pause(reason, frames);
+    stepDepth =
+      resume === "stepIn"
+        ? Infinity
+        : resume === "stepOver"
+          ? depth
+          : resume === "stepOut"
+            ? depth - 1
+            : -Infinity;
+  };
+
+  const evaluateIn = (src: string, frame: PausedFrame) => {
+    if (!frame.state) {
+      throw new Error(`Cannot evaluate in ${frame.name}, a builtin`);
+    }
+    evaluating = true;
+    try {
+      return evaluate(parse({ tokens: tokenize(src) }), {
+        ...frame.state,
+        debug: undefined,
+      });
+    } finally {
+      evaluating = false;
+    }
+  };
+
+  const pauseAtStart = () => {
+    stepDepth = Infinity;
+    atStart = true;
+  };
+
+  return { breakpoints, hook, pauseAtStart, evaluateIn };
+}
+
+/**
+ * The variables `env` can see, innermost scope first: the locals of the
+ * function and blocks it is in, then the globals of its file. Builtins are
+ * left out.
+ */
+function scopesOf(env: Environment): VariableScope[] {
+  const locals = new Map<string, unknown>();
+  let scope: Environment | undefined = env;
+  // A file's global scope is the one right under the frozen builtins.
+  for (; scope && !scope.parent?.frozen; scope = scope.parent) {
+    for (const [name, value] of scope.vars) {
+      if (!locals.has(name)) {
+        locals.set(name, value);
+      }
+    }
+  }
+  const scopes = [{ name: "Locals", variables: locals }];
+  if (scope && !scope.frozen) {
+    scopes.push({ name: "Globals", variables: scope.vars });
+  }
+  return scopes.filter(
+    (s, i) => s.variables.size > 0 || i === scopes.length - 1,
+  );
+}
+
+/** Every line of `file` a statement starts on, for checking breakpoints. */
+function statementLines(file: string): Set<number> | undefined {
+  let ast: ASTNode;
+  try {
+    ast = parse({
+      tokens: tokenize(fs.readFileSync(file, "utf-8"), file),
+    });
+  } catch {
+    return undefined;
+  }
+  const lines = new Set<number>();
+  const visit = (node: ASTNode, statement: boolean) => {
+    if (statement && node.type !== "comment") {
+      lines.add(node.loc.line0);
+    }
+    for (const child of childNodes(node)) {
+      visit(
+        child,
+        node.type === "statementList" ||
+          (node.type === "function" && child === node.body),
+      );
+    }
+  };
+  visit(ast, true);
+  return lines;
+}
+
+/** Reads lines or protocol messages from a file descriptor, blocking. */
+class SyncReader {
+  private buffer = Buffer.alloc(0);
+  private ended = false;
+
+  constructor(private fd: number) {}
+
+  /** Reads more input, returning false at the end of it. */
+  private fill(): boolean {
+    if (this.ended) {
+      return false;
+    }
+    const chunk = Buffer.alloc(65536);
+    let bytes: number;
+    for (;;) {
+      try {
+        bytes = fs.readSync(this.fd, chunk, 0, chunk.length, null);
+        break;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "EAGAIN") {
+          throw e;
+        }
+        // Non-blocking stdin with nothing to read yet.
+        Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 10);
+      }
+    }
+    if (bytes === 0) {
+      this.ended = true;
+      return false;
+    }
+    this.buffer = Buffer.concat([this.buffer, chunk.subarray(0, bytes)]);
+    return true;
+  }
+
+  readLine(): string | undefined {
+    for (;;) {
+      const end = this.buffer.indexOf("\n");
+      if (end >= 0) {
+        const line = this.buffer.subarray(0, end).toString("utf-8");
+        this.buffer = this.buffer.subarray(end + 1);
+        return line.replace(/\r$/, "");
+      }
+      if (!this.fill()) {
+        const rest = this.buffer.toString("utf-8");
+        this.buffer = Buffer.alloc(0);
+        return rest || undefined;
+      }
+    }
+  }
+
+  /**
+   * Reads a message framed with a `Content-Length` header. Frames without a
+   * length, and bodies that aren't a JSON object, are skipped.
+   */
+  readMessage(): object | undefined {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd >= 0) {
+        const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+        const length = /Content-Length: *(\d+)/i.exec(header)?.[1];
+        if (length === undefined) {
+          this.buffer = this.buffer.subarray(headerEnd + 4);
+          continue;
+        }
+        const end = headerEnd + 4 + Number(length);
+        if (this.buffer.length >= end) {
+          const body = this.buffer.subarray(headerEnd + 4, end);
+          this.buffer = this.buffer.subarray(end);
+          let message: unknown;
+          try {
+            message = JSON.parse(body.toString("utf-8"));
+          } catch {
+            continue;
+          }
+          if (typeof message === "object" && message !== null) {
+            return message;
+          }
+          continue;
+        }
+      }
+      if (!this.fill()) {
+        return undefined;
+      }
+    }
+  }
+}
+
+const terminalHelp = `\
+break [file:]line  stop when a statement on the line is about to run (b)
+clear [file:]line  remove a breakpoint
+breakpoints        list the breakpoints
+continue           run until the next breakpoint (c)
+step               run to the next statement, going into calls (s)
+next               run to the next statement in this call or its caller (n)
+finish             run until the current call returns (f)
+backtrace          show the calls in progress (bt)
+frame <n>          look at the nth call from the innermost instead (fr)
+vars               show the variables the current statement can see (v)
+print <expr>       evaluate an expression where the program is paused (p)
+list               show the source around the current statement (l)
+quit               stop the program and exit (q)`;
+
+const commandAliases: { [alias: string]: string } = {
+  b: "break",
+  c: "continue",
+  s: "step",
+  n: "next",
+  f: "finish",
+  bt: "backtrace",
+  fr: "frame",
+  v: "vars",
+  p: "print",
+  l: "list",
+  q: "quit",
+  h: "help",
+};
+
+/** `file:line` for the statement a frame is running. */
+function describeFrame(frame: PausedFrame): string {
+  const loc = frame.node?.loc;
+  if (!loc) {
+    return frame.name;
+  }
+  const file = loc.file ? path.relative(process.cwd(), loc.file) : "<input>";
+  return `${frame.name} at ${file}:${loc.line0}`;
+}
+
+function sourceLines(frame: PausedFrame, around: number): string[] {
+  const loc = frame.node!.loc;
+  const lines = loc.src.split(/\r\n|\r|\n/);
+  const first = Math.max(1, loc.line0 - around);
+  const last = Math.min(lines.length, loc.line0 + around);
+  const result: string[] = [];
+  for (let line = first; line <= last; line++) {
+    const marker = line === loc.line0 ? ">" : " ";
+    result.push(`${marker}${String(line).padStart(4)} | ${lines[line - 1]}`);
+  }
+  return result;
+}
+
+/**
+ * Runs `file` under a debugger driven by commands typed at a prompt, pausing
+ * before the first statement. Returns the program's exit code.
+ */
+export function debugInTerminal({
+  file,
+  args = [],
+  input = 0,
+  output = 1,
+}: DebugOptions): number {
+  const reader = new SyncReader(input);
+  const write = (text: string) => {
+    fs.writeSync(output, text);
+  };
+  file = path.resolve(file);
+
+  const parseLocation = (
+    spec: string,
+    frame: PausedFrame,
+  ): { file: string; line: number } | undefined => {
+    const match = /^(?:(.+):)?(\d+)$/.exec(spec.trim());
+    if (!match) {
+      return undefined;
+    }
+    return {
+      file: match[1] ? path.resolve(match[1]) : (frame.node?.loc.file ?? file),
+      line: Number(match[2]),
+    };
+  };
+
+  const session = createDebugger((reason, frames) => {
+    let selected = 0;
+    write(`Paused (${reason}) in ${describeFrame(frames[0]!)}\n`);
+    write(`${sourceLines(frames[0]!, 0).join("\n")}\n`);
+    for (;;) {
+      write("(tinyfn) ");
+      const line = reader.readLine();
+      if (line === undefined) {
+        write("\n");
+        return "continue";
+      }
+      const [word = "", ...rest] = line.trim().split(/\s+/);
+      const argument = line.trim().slice(word.length).trim();
+      const command = commandAliases[word] ?? word;
+      const frame = frames[selected]!;
+      switch (command) {
+        case "":
+          continue;
+        case "continue":
+          return "continue";
+        case "step":
+          return "stepIn";
+        case "next":
+          return "stepOver";
+        case "finish":
+          return "stepOut";
+        case "quit":
+          throw new QuitSignal();
+        case "break":
+        case "clear": {
+          const location = parseLocation(argument, frame);
+          if (!location) {
+            write(`usage: ${command} [file:]line\n`);
+            continue;
+          }
+          const lines = session.breakpoints.get(location.file) ?? new Set();
+          session.breakpoints.set(location.file, lines);
+          const where = `${path.relative(process.cwd(), location.file)}:${location.line}`;
+          if (command === "clear") {
+            write(
+              lines.delete(location.line)
+                ? `Removed breakpoint at ${where}\n`
+                : `No breakpoint at ${where}\n`,
+            );
+          } else if (!statementLines(location.file)?.has(location.line)) {
+            write(`No statement starts at ${where}\n`);
+          } else {
+            lines.add(location.line);
+            write(`Breakpoint at ${where}\n`);
+          }
+          continue;
+        }
+        case "breakpoints":
+          for (const [file, lines] of session.breakpoints) {
+            for (const line of [...lines].sort((a, b) => a - b)) {
+              write(`${path.relative(process.cwd(), file)}:${line}\n`);
+            }
+          }
+          continue;
+        case "backtrace":
+          frames.forEach((frame, i) => {
+            const marker = i === selected ? "*" : " ";
+            write(`${marker}${i} ${describeFrame(frame)}\n`);
+          });
+          continue;
+        case "frame": {
+          const index = Number(rest[0]);
+          if (!Number.isInteger(index) || !frames[index]) {
+            write(`usage: frame <0-${frames.length - 1}>\n`);
+            continue;
+          }
+          selected = index;
+          write(`${index} ${describeFrame(frames[index]!)}\n`);
+          continue;
+        }
+        case "vars":
+          if (!frame.state) {
+            write(`${frame.name} is a builtin\n`);
+            continue;
+          }
+          for (const scope of scopesOf(frame.state.env)) {
+            write(`${scope.name}:\n`);
+            for (const [name, value] of scope.variables) {
+              write(`  ${name} = ${inspect(value)}\n`);
+            }
+          }
+          continue;
+        case "print":
+          try {
+            write(`${inspect(session.evaluateIn(argument, frame))}\n`);
+          } catch (e) {
+            if (e instanceof QuitSignal || e instanceof ExitSignal) {
+              throw e;
+            }
+            write(`${e instanceof Error ? e.message : e}\n`);
+          }
+          continue;
+        case "list":
+          if (frame.node) {
+            write(`${sourceLines(frame, 5).join("\n")}\n`);
+          }
+          continue;
+        case "help":
+          write(`${terminalHelp}\n`);
+          continue;
+        default:
+          write(`Unknown command ${word}; try help\n`);
+      }
+    }
+  });
+
+  session.pauseAtStart();
+  return runProgram(file, args, session, write, write);
+}
+
+/**
+ * Runs `file` with the debugger's hook, reporting errors through `stderr`.
+ * Returns the exit code, like `tinyfn run` would.
+ */
+function runProgram(
+  file: string,
+  args: string[],
+  session: Debugger,
+  stdout: (text: string) => void,
+  stderr: (text: string) => void,
+): number {
+  try {
+    const src = fs.readFileSync(file, "utf-8");
+    const state = createEvalState({
+      globals: { args },
+      file,
+      stdout,
+      stderr,
+      debug: session.hook,
+    });
+    evaluate(parse({ tokens: tokenize(src, file) }), state);
+    return 0;
+  } catch (e) {
+    if (e instanceof ExitSignal) {
+      return e.code;
+    }
+    if (e instanceof QuitSignal) {
+      return 0;
+    }
+    if (e instanceof ErrorWithSource) {
+      stderr(`${e.message}\n`);
+      return 1;
+    }
+    if (e instanceof Error && "code" in e && e.code === "ENOENT") {
+      stderr(`Cannot read ${file}: ${e.message}\n`);
+      return 64;
+    }
+    throw e;
+  }
+}
+
+// The parts of the Debug Adapter Protocol the adapter uses.
+type DapRequest = {
+  seq: number;
+  type: "request";
+  command: string;
+  arguments?: { [key: string]: unknown };
+};
+
+/** Something the client can expand in its variables view. */
+type Expandable =
+  | { kind: "scope"; variables: Map<string, unknown> }
+  | { kind: "value"; value: unknown[] | { [key: string]: unknown } };
+
+/**
+ * Runs a Debug Adapter Protocol session on `input` and `output`. The client
+ * launches the program with `launch` (`program`, `args`, `stopOnEntry`), sets
+ * breakpoints, and sends `configurationDone` to start it. While paused it can
+ * ask for the stack, scopes and variables and evaluate expressions. Returns
+ * when the client disconnects or the input ends.
+ */
+export function debugAdapter({
+  input = 0,
+  output = 1,
+}: Omit<DebugOptions, "file" | "args">): number {
+  const reader = new SyncReader(input);
+  let seq = 1;
+  const send = (message: object) => {
+    const json = JSON.stringify({ seq: seq++, ...message });
+    fs.writeSync(
+      output,
+      `Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`,
+    );
+  };
+  const respond = (request: DapRequest, body?: object, error?: string) =>
+    send({
+      type: "response",
+      request_seq: request.seq,
+      command: request.command,
+      success: error === undefined,
+      message: error,
+      body,
+    });
+  const event = (name: string, body?: object) =>
+    send({ type: "event", event: name, body });
+
+  let launch: { program?: string; args?: string[]; stopOnEntry?: boolean } = {};
+  /** While paused, the frames and the values the client can expand. */
+  let paused: { frames: PausedFrame[]; expandables: Expandable[] } | undefined;
+  let disconnected = false;
+
+  const reference = (value: unknown): number => {
+    if (!paused || typeof value !== "object" || value === null) {
+      return 0;
+    }
+    paused.expandables.push({
+      kind: "value",
+      value: value as { [key: string]: unknown },
+    });
+    return paused.expandables.length;
+  };
+  const variable = (name: string, value: unknown) => ({
+    name,
+    value: inspect(value),
+    variablesReference: reference(value),
+  });
+
+  /**
+   * Answers requests that can come at any time. Returns how to resume for
+   * requests that resume the program, and `undefined` otherwise.
+   */
+  const handle = (request: DapRequest): Resume | "start" | undefined => {
+    const args = request.arguments ?? {};
+    switch (request.command) {
+      case "initialize":
+        respond(request, {
+          supportsConfigurationDoneRequest: true,
+          supportsTerminateRequest: true,
+        });
+        event("initialized");
+        return undefined;
+      case "launch":
+        launch = args;
+        respond(request);
+        return undefined;
+      case "setBreakpoints": {
+        const source = args.source as { path?: string };
+        const requested = (args.breakpoints ?? []) as Array<{ line: number }>;
+        const file = path.resolve(source.path ?? "");
+        const valid = statementLines(file);
+        const lines = new Set<number>();
+        const breakpoints = requested.map(({ line }) => {
+          const verified = valid?.has(line) ?? false;
+          if (verified) {
+            lines.add(line);
+          }
+          return verified
+            ? { verified, line }
+            : { verified, line, message: "No statement starts on this line" };
+        });
+        session.breakpoints.set(file, lines);
+        respond(request, { breakpoints });
+        return undefined;
+      }
+      case "setExceptionBreakpoints":
+        respond(request, { breakpoints: [] });
+        return undefined;
+      case "configurationDone":
+        respond(request);
+        return "start";
+      case "threads":
+        respond(request, { threads: [{ id: 1, name: "main" }] });
+        return undefined;
+      case "stackTrace": {
+        const frames = paused?.frames ?? [];
+        respond(request, {
+          stackFrames: frames.map((frame, i) => {
+            const loc = frame.node?.loc;
+            return {
+              id: i + 1,
+              name: frame.name,
+              line: loc?.line0 ?? 0,
+              column: loc?.col0 ?? 0,
+              source: loc?.file
+                ? { name: path.basename(loc.file), path: loc.file }
+                : undefined,
+            };
+          }),
+          totalFrames: frames.length,
+        });
+        return undefined;
+      }
+      case "scopes": {
+        const state = paused?.frames[(args.frameId as number) - 1]?.state;
+        const scopes = state ? scopesOf(state.env) : [];
+        respond(request, {
+          scopes: scopes.map(({ name, variables }) => {
+            paused!.expandables.push({ kind: "scope", variables });
+            return {
+              name,
+              variablesReference: paused!.expandables.length,
+              expensive: false,
+            };
+          }),
+        });
+        return undefined;
+      }
+      case "variables": {
+        const expandable =
+          paused?.expandables[(args.variablesReference as number) - 1];
+        let variables: Array<ReturnType<typeof variable>> = [];
+        if (expandable?.kind === "scope") {
+          variables = [...expandable.variables].map(([name, value]) =>
+            variable(name, value),
+          );
+        } else if (expandable) {
+          variables = Object.entries(expandable.value).map(([name, value]) =>
+            variable(name, value),
+          );
+        }
+        respond(request, { variables });
+        return undefined;
+      }
+      case "evaluate": {
+        const frame = paused?.frames[((args.frameId as number) ?? 1) - 1];
+        if (!frame) {
+          respond(request, undefined, "The program is not paused");
+          return undefined;
+        }
+        try {
+          const value = session.evaluateIn(args.expression as string, frame);
+          respond(request, {
+            result: inspect(value),
+            variablesReference: reference(value),
+          });
+        } catch (e) {
+          if (e instanceof QuitSignal || e instanceof ExitSignal) {
+            throw e;
+          }
+          const message =
+            e instanceof ErrorWithSource
+              ? (e.args.message ?? "Error")
+              : `${e instanceof Error ? e.message : e}`;
+          respond(request, undefined, message);
+        }
+        return undefined;
+      }
+      case "continue":
+        respond(request, { allThreadsContinued: true });
+        return "continue";
+      case "next":
+        respond(request);
+        return "stepOver";
+      case "stepIn":
+        respond(request);
+        return "stepIn";
+      case "stepOut":
+        respond(request);
+        return "stepOut";
+      case "disconnect":
+      case "terminate":
+        respond(request);
+        disconnected = true;
+        if (paused) {
+          throw new QuitSignal();
+        }
+        return undefined;
+      default:
+        respond(request, undefined, `Unsupported request ${request.command}`);
+        return undefined;
+    }
+  };
+
+  const session = createDebugger((reason, frames) => {
+    paused = { frames, expandables: [] };
+    event("stopped", { reason, threadId: 1, allThreadsStopped: true });
+    try {
+      for (;;) {
+        const request = reader.readMessage() as DapRequest | undefined;
+        if (!request) {
+          throw new QuitSignal();
+        }
+        const resume = handle(request);
+        if (resume && resume !== "start") {
+          return resume;
+        }
+      }
+    } finally {
+      paused = undefined;
+    }
+  });
+
+  // Configuration comes first; `configurationDone` starts the program.
+  for (;;) {
+    const request = reader.readMessage() as DapRequest | undefined;
+    if (!request || disconnected) {
+      return 0;
+    }
+    if (handle(request) === "start") {
+      break;
+    }
+  }
+
+  if (launch.stopOnEntry) {
+    session.pauseAtStart();
+  }
+  const stdout = (text: string) =>
+    event("output", { category: "stdout", output: text });
+  const stderr = (text: string) =>
+    event("output", { category: "stderr", output: text });
+  let exitCode = 64;
+  if (launch.program) {
+    exitCode = runProgram(
+      launch.program,
+      launch.args ?? [],
+      session,
+      stdout,
+      stderr,
+    );
+  } else {
+    stderr("launch needs a program\n");
+  }
+  event("exited", { exitCode });
+  event("terminated");
+
+  while (!disconnected) {
+    const request = reader.readMessage() as DapRequest | undefined;
+    if (!request) {
+      break;
+    }
+    handle(request);
+  }
+  return exitCode;
+}
@@ -0,0 +1,573 @@
+import {
+  ASTNode,
+  BlockNode,
+  CallNode,
+  ExpressionNode,
+  ParamNode,
+  StatementListNode,
+  TypeNode,
+  binaryPrecedence,
+  parse,
+  sourceText,
+  tokenize,
+} from "./tinyfn";
+
+export type FormatOptions = {
+  /** Lines longer than this are wrapped where possible. Defaults to 80. */
+  width?: number;
+  /** Path of the file being formatted, for error messages. */
+  file?: string;
+};
+
+const defaultWidth = 80;
+const indentWidth = 2;
+
+/**
+ * A layout for the printer: text, a place that may become a line break,
+ * indentation, a group whose breaks are all taken or none, and text that
+ * depends on whether the enclosing group broke.
+ */
+type Doc =
+  | string
+  | Doc[]
+  | { kind: "line"; flat: string; hard?: boolean }
+  | { kind: "indent"; contents: Doc }
+  | { kind: "group"; contents: Doc }
+  | { kind: "ifBreak"; broken: string }
+  | { kind: "breakParent" };
+
+/** A space, or a line break if the group breaks. */
+const line: Doc = { kind: "line", flat: " " };
+/** Nothing, or a line break if the group breaks. */
+const softline: Doc = { kind: "line", flat: "" };
+/** Always a line break; every group around it breaks too. */
+const hardline: Doc = { kind: "line", flat: "", hard: true };
+/** Nothing, but the groups around it break. */
+const breakParent: Doc = { kind: "breakParent" };
+/** The comma after the last item of a list that was broken over lines. */
+const trailingComma: Doc = { kind: "ifBreak", broken: "," };
+
+function group(...contents: Doc[]): Doc {
+  return { kind: "group", contents };
+}
+
+function indent(...contents: Doc[]): Doc {
+  return { kind: "indent", contents };
+}
+
+function join(separator: Doc, docs: Doc[]): Doc[] {
+  return docs.flatMap((doc, i) => (i === 0 ? [doc] : [separator, doc]));
+}
+
+/**
+ * Formats tinyfn source. Comments stay where they were, blank lines between
+ * statements are kept (one at most), and calls, lists and records are
+ * wrapped one item per line if they don't fit in `width` columns.
+ *
+ * Throws `ParseErrors` if `src` doesn't parse. The result is checked to parse
+ * to the same AST and to format to itself.
+ */
+export function formatSource(src: string, options: FormatOptions = {}): string {
+  const ast = parse({ tokens: tokenize(src, options.file) });
+  const formatted = prettyPrint(ast, options);
+  let same: boolean;
+  try {
+    const reparsed = parse({ tokens: tokenize(formatted, options.file) });
+    same =
+      astShape(reparsed) === astShape(ast) &&
+      prettyPrint(reparsed, options) === formatted;
+  } catch {
+    same = false;
+  }
+  if (!same) {
+    throw new Error(
+      `internal error: formatting ${options.file ?? "the source"} would change its meaning`,
+    );
+  }
+  return formatted;
+}
+
+/** The AST as text, leaving out what formatting may change. */
+function astShape(ast: ASTNode): string {
+  return JSON.stringify(ast, (key, value) => {
+    if (key === "loc") {
+      return undefined;
+    }
+    if (typeof value === "bigint") {
+      return `${value}n`;
+    }
+    if (value?.type === "comment") {
+      return { ...value, value: value.value.trimEnd() };
+    }
+    return value;
+  });
+}
+
+/** `ast` as source code in the canonical style; see `formatSource`. */
+export function prettyPrint(
+  ast: ASTNode,
+  { width = defaultWidth }: FormatOptions = {},
+): string {
+  const statements = ast.type === "statementList" ? ast.statements : [ast];
+  if (statements.length === 0) {
+    return "";
+  }
+  return `${render(printStatements(statements), width)}\n`;
+}
+
+function printStatements(statements: ASTNode[]): Doc {
+  return statements.map((statement, i) => {
+    const previous = statements[i - 1];
+    const printed = printStatement(statement);
+    if (!previous) {
+      return printed;
+    }
+    if (
+      statement.type === "comment" &&
+      statement.loc.line0 === previous.loc.line1
+    ) {
+      return [" ", printed];
+    }
+    const blankLine = statement.loc.line0 - previous.loc.line1 > 1;
+    return [hardline, blankLine ? hardline : "", printed];
+  });
+}
+
+/** Statements that end in a block or a comment take no semicolon. */
+function printStatement(node: ASTNode): Doc {
+  switch (node.type) {
+    case "comment":
+      return node.value.trimEnd();
+    case "if":
+    case "while":
+    case "for":
+      return print(node);
+    default:
+      return [print(node), ";"];
+  }
+}
+
+function printBlock(node: BlockNode | StatementListNode): Doc {
+  const { statements } = node.type === "block" ? node.body : node;
+  if (statements.length === 0) {
+    return "{}";
+  }
+  return ["{", indent(hardline, printStatements(statements)), hardline, "}"];
+}
+
+function print(node: ASTNode): Doc {
+  switch (node.type) {
+    case "comment":
+      // Anything after it on the line would be part of the comment.
+      return [node.value.trimEnd(), hardline];
+    case "literal":
+      if (typeof node.value === "string") {
+        return quote(node.value);
+      }
+      // As written, so `1.5e3` stays that way.
+      return sourceText(node);
+    case "template":
+      return [
+        '"',
+        ...node.parts.map((part) =>
+          typeof part === "string"
+            ? escape(part)
+            : ["${", render(print(part), Infinity), "}"],
+        ),
+        '"',
+      ];
+    case "identifier":
+      return node.name;
+    case "assignment":
+      return [print(node.target), " = ", print(node.value)];
+    case "export":
+      return ["export ", print(node.declaration)];
+    case "import": {
+      const source = quote(node.source.value as string);
+      if (node.namespace) {
+        return ["import * as ", node.namespace.name, " from ", source];
+      }
+      const specifiers = node.specifiers.map(({ imported, local }) =>
+        imported.name === local.name
+          ? imported.name
+          : `${imported.name} as ${local.name}`,
+      );
+      return ["import ", printBraced(specifiers), " from ", source];
+    }
+    case "block":
+    case "statementList":
+      return printBlock(node);
+    case "call":
+      if (isBinary(node)) {
+        return printBinary(node.callee.name, node.args[0]!, node.args[1]!);
+      }
+      return [printObject(node.callee), printArguments(node.args)];
+    case "function":
+      return [
+        printDelimited("(", node.args.map(printParam), ")"),
+        " => ",
+        print(node.body),
+      ];
+    case "if": {
+      const printed = ["if ", printCondition(node.condition), " "];
+      printed.push(printBlock(node.then));
+      if (node.else) {
+        printed.push(
+          " else ",
+          node.else.type === "if" ? print(node.else) : printBlock(node.else),
+        );
+      }
+      return printed;
+    }
+    case "while":
+      return [
+        "while ",
+        printCondition(node.condition),
+        " ",
+        printBlock(node.body),
+      ];
+    case "for":
+      return [
+        "for ",
+        node.variable.name,
+        " in ",
+        printCondition(node.iterable),
+        " ",
+        printBlock(node.body),
+      ];
+    case "return":
+      return node.value ? ["return ", print(node.value)] : "return";
+    case "break":
+    case "continue":
+      return node.type;
+    case "unary":
+      return [node.operator.name, printOperand(node.operand, Infinity)];
+    case "logical":
+      return printBinary(node.operator.name, node.left, node.right);
+    case "list":
+      return printDelimited("[", node.items.map(print), "]");
+    case "record":
+      return printBraced(
+        node.fields.map((field) => [
+          fieldName(field.key.name),
+          ": ",
+          print(field.value),
+        ]),
+      );
+    case "member":
+      return [printObject(node.object), ".", fieldName(node.property.name)];
+    case "index":
+      return [printObject(node.object), "[", print(node.index), "]"];
+    default: {
+      const unexpected: never = node;
+      throw new Error(`internal error: can't print ${unexpected}`);
+    }
+  }
+}
+
+/** Whether `node` is a binary operator, which the parser turns into a call. */
+function isBinary(
+  node: ASTNode,
+): node is CallNode & { callee: { type: "identifier" } } {
+  return (
+    node.type === "call" &&
+    node.callee.type === "identifier" &&
+    binaryPrecedence.has(node.callee.name)
+  );
+}
+
+function precedence(node: ASTNode): number {
+  if (isBinary(node)) {
+    return binaryPrecedence.get(node.callee.name)!;
+  }
+  if (node.type === "logical") {
+    return binaryPrecedence.get(node.operator.name)!;
+  }
+  return Infinity;
+}
+
+/** Operators are left-associative, so a right operand that binds no tighter needs parentheses. */
+function printBinary(operator: string, left: ASTNode, right: ASTNode): Doc {
+  const own = binaryPrecedence.get(operator)!;
+  return [
+    printOperand(left, own),
+    ` ${operator} `,
+    printOperand(right, own + 1),
+  ];
+}
+
+/** An operand that must bind at least as tightly as `minPrecedence`. */
+function printOperand(node: ASTNode, minPrecedence: number): Doc {
+  const needsParens =
+    node.type === "function" ||
+    node.type === "assignment" ||
+    (node.type === "unary" ? false : precedence(node) < minPrecedence);
+  return needsParens ? ["(", print(node), ")"] : print(node);
+}
+
+/** The callee of a call or the object of `.` or `[]`, which must be a term. */
+function printObject(node: ExpressionNode): Doc {
+  const needsParens =
+    node.type === "function" ||
+    node.type === "assignment" ||
+    node.type === "unary" ||
+    node.type === "logical" ||
+    isBinary(node) ||
+    // `1.x` would read as the number `1.` followed by `x`
+    (node.type === "literal" && typeof node.value !== "string");
+  return needsParens ? ["(", print(node), ")"] : print(node);
+}
+
+/** Conditions of `if` and `while` and `for` iterables can't be lambdas or assignments. */
+function printCondition(node: ExpressionNode): Doc {
+  return node.type === "function" || node.type === "assignment"
+    ? ["(", print(node), ")"]
+    : print(node);
+}
+
+/**
+ * Call arguments. A lambda with a block body as the last argument stays on
+ * the line of the call, as in `each(xs, (x) => {`, instead of the arguments
+ * going one per line.
+ */
+function printArguments(args: ASTNode[]): Doc {
+  const hasBlockBody = (node: ASTNode) =>
+    node.type === "function" &&
+    node.body.type === "block" &&
+    node.body.body.statements.length > 0;
+  const last = args.at(-1);
+  if (
+    last &&
+    hasBlockBody(last) &&
+    !args.slice(0, -1).some(hasBlockBody) &&
+    !args.some((arg) => arg.type === "comment")
+  ) {
+    return ["(", join(", ", args.map(print)), ")"];
+  }
+  return printDelimited("(", args.map(print), ")");
+}
+
+/** `(a, b)` or `[a, b]`, or one item per line with a trailing comma. */
+function printDelimited(open: string, items: Doc[], close: string): Doc {
+  if (items.length === 0) {
+    return [open, close];
+  }
+  return group(open, indent(softline, printItems(items)), softline, close);
+}
+
+/** `{ a, b }`, or one item per line with a trailing comma. */
+function printBraced(items: Doc[]): Doc {
+  if (items.length === 0) {
+    return "{}";
+  }
+  return group("{", indent(line, printItems(items)), line, "}");
+}
+
+/**
+ * Items separated by commas. A comment can only come last, and no comma
+ * follows it: it runs to the end of its line.
+ */
+function printItems(items: Doc[]): Doc {
+  return items.map((item, i) => {
+    const separator = i === 0 ? [] : [line];
+    const isComment = Array.isArray(item) && item.at(-1) === hardline;
+    if (isComment) {
+      return [...separator, item[0]!, breakParent];
+    }
+    return [...separator, item, i === items.length - 1 ? trailingComma : ","];
+  });
+}
+
+function printParam(param: ParamNode): Doc {
+  return param.annotation
+    ? [param.name, ": ", printType(param.annotation)]
+    : param.name;
+}
+
+function printType(node: TypeNode): Doc {
+  switch (node.type) {
+    case "namedType":
+      return node.name;
+    case "listType":
+      return ["[", printType(node.item), "]"];
+    case "recordType":
+      return printBraced(
+        node.fields.map(({ key, value }) => [
+          fieldName(key.name),
+          ": ",
+          printType(value),
+        ]),
+      );
+    case "functionType":
+      return [
+        printDelimited("(", node.params.map(printType), ")"),
+        " => ",
+        printType(node.result),
+      ];
+  }
+}
+
+/** A field name, quoted unless it reads as one word. */
+function fieldName(name: string): string {
+  const isWord =
+    /^\p{XID_Start}\p{XID_Continue}*$/u.test(name) &&
+    name !== "true" &&
+    name !== "false";
+  return isWord ? name : quote(name);
+}
+
+const escapes: { [c: string]: string } = {
+  "\n": "\\n",
+  "\t": "\\t",
+  "\r": "\\r",
+  "\0": "\\0",
+  "\\": "\\\\",
+  '"': '\\"',
+  $: "\\$",
+};
+
+function quote(text: string): string {
+  return `"${escape(text)}"`;
+}
+
+/** `text` as it would be written between double quotes. */
+function escape(text: string): string {
+  return text.replace(
+    /[\n\t\r\0\\"]|\$(?=\{)|[\x01-\x1f\x7f]/g,
+    (c) => escapes[c] ?? `\\u{${c.codePointAt(0)!.toString(16)}}`,
+  );
+}
+
+/**
+ * Lays out `doc` in `width` columns. Each group is printed flat if the rest
+ * of it, up to the next place the line can break, fits; otherwise each of its
+ * lines breaks.
+ */
+function render(doc: Doc, width: number): string {
+  type Command = { indent: number; flat: boolean; doc: Doc };
+  const out: string[] = [];
+  let column = 0;
+  const stack: Command[] = [{ indent: 0, flat: false, doc }];
+  while (stack.length > 0) {
+    const { indent: level, flat, doc } = stack.pop()!;
+    if (typeof doc === "string") {
+      out.push(doc);
+      const newline = doc.lastIndexOf("\n");
+      column = newline < 0 ? column + doc.length : doc.length - newline - 1;
+      continue;
+    }
+    if (Array.isArray(doc)) {
+      for (let i = doc.length - 1; i >= 0; i--) {
+        stack.push({ indent: level, flat, doc: doc[i]! });
+      }
+      continue;
+    }
+    switch (doc.kind) {
+      case "indent":
+        stack.push({ indent: level + indentWidth, flat, doc: doc.contents });
+        break;
+      case "group": {
+        const next = { indent: level, flat: true, doc: doc.contents };
+        next.flat =
+          flat ||
+          (!mustBreak(doc.contents) && fits(next, stack, width - column));
+        stack.push(next);
+        break;
+      }
+      case "breakParent":
+        break;
+      case "ifBreak":
+        if (!flat) {
+          out.push(doc.broken);
+          column += doc.broken.length;
+        }
+        break;
+      case "line":
+        if (flat && !doc.hard) {
+          out.push(doc.flat);
+          column += doc.flat.length;
+        } else {
+          trimTrailingSpaces(out);
+          out.push(`\n${" ".repeat(level)}`);
+          column = level;
+        }
+        break;
+    }
+  }
+  return out.join("").trimEnd();
+}
+
+function trimTrailingSpaces(out: string[]) {
+  while (out.length > 0) {
+    const last = out.pop()!.replace(/ +$/, "");
+    if (last !== "") {
+      out.push(last);
+      return;
+    }
+  }
+}
+
+/**
+ * Whether `next`, printed flat, and then what's on `rest` up to its next
+ * line break fit in `room` columns.
+ */
+function fits(
+  next: { indent: number; flat: boolean; doc: Doc },
+  rest: Array<{ indent: number; flat: boolean; doc: Doc }>,
+  room: number,
+): boolean {
+  const pending: Array<{ flat: boolean; doc: Doc }> = [next];
+  let restIndex = rest.length - 1;
+  while (room >= 0) {
+    let command = pending.pop();
+    if (!command) {
+      const fromRest = rest[restIndex--];
+      if (!fromRest) {
+        return true;
+      }
+      command = fromRest;
+    }
+    const { flat, doc } = command;
+    if (typeof doc === "string") {
+      room -= doc.length;
+    } else if (Array.isArray(doc)) {
+      for (let i = doc.length - 1; i >= 0; i--) {
+        pending.push({ flat, doc: doc[i]! });
+      }
+    } else if (doc.kind === "line") {
+      if (!flat || doc.hard) {
+        return true;
+      }
+      room -= doc.flat.length;
+    } else if (doc.kind === "ifBreak") {
+      room -= flat ? 0 : doc.broken.length;
+    } else if (doc.kind === "group" || doc.kind === "indent") {
+      pending.push({ flat, doc: doc.contents });
+    }
+  }
+  return false;
+}
+
+const mustBreakCache = new WeakMap<object, boolean>();
+
+function mustBreak(doc: Doc): boolean {
+  if (typeof doc === "string") {
+    return false;
+  }
+  let result = mustBreakCache.get(doc);
+  if (result === undefined) {
+    if (Array.isArray(doc)) {
+      result = doc.some(mustBreak);
+    } else if (doc.kind === "line") {
+      result = doc.hard === true;
+    } else if (doc.kind === "ifBreak") {
+      result = false;
+    } else if (doc.kind === "breakParent") {
+      result = true;
+    } else {
+      result = mustBreak(doc.contents);
+    }
+    mustBreakCache.set(doc, result);
+  }
+  return result;
+}
@@ -0,0 +1,404 @@
+import fs from "fs";
+import path from "path";
+import { builtinNamespaces, builtinTypes } from "./check";
+import {
+  ASTNode,
+  CommentNode,
+  Definition,
+  Diagnostic,
+  NameScope,
+  Names,
+  childNodes,
+  parseType,
+  resolveNames,
+} from "./tinyfn";
+
+export const lintRules = [
+  "shadow-builtin",
+  "unused-variable",
+  "unused-parameter",
+  "arity",
+  "unreachable",
+] as const;
+
+export type LintRule = (typeof lintRules)[number];
+
+export type LintWarning = Diagnostic & { rule: LintRule };
+
+export type LintOptions = {
+  /** Rules set to `false` are not checked. All are on by default. */
+  rules?: { [rule in LintRule]?: boolean };
+};
+
+/** The name of the config file `findLintConfig` looks for. */
+export const lintConfigName = ".tinyfnlint.json";
+
+type Linter = {
+  warnings: LintWarning[];
+  names: Names;
+  /** Definitions some identifier reads. */
+  used: Set<Definition>;
+  /** Unused variables aren't reported if `include` could be reading them. */
+  includes: boolean;
+};
+
+/** How many arguments each builtin takes, in each of its forms. */
+const builtinArities = new Map(
+  Object.entries(builtinTypes).map(([name, signatures]) => [
+    name,
+    (typeof signatures === "string" ? [signatures] : signatures).map(
+      (signature) => {
+        const type = parseType(signature);
+        return type.type === "functionType" ? type.params.length : 0;
+      },
+    ),
+  ]),
+);
+
+/**
+ * Looks through `ast` for common mistakes and returns a warning for each,
+ * minus those turned off in `options` or by `# lint-disable` comments:
+ *
+ * - `shadow-builtin`: a variable, parameter or import named like a builtin
+ * - `unused-variable`: a variable or import that is never read
+ * - `unused-parameter`: a parameter never read, unless a later one is
+ * - `arity`: a call to a builtin or a lambda with the wrong number of arguments
+ * - `unreachable`: a statement after `return`, `break` or `continue`
+ */
+export function lint(ast: ASTNode, options: LintOptions = {}): LintWarning[] {
+  const names = resolveNames(ast);
+  const linter: Linter = {
+    warnings: [],
+    names,
+    used: new Set(),
+    includes: containsInclude(ast),
+  };
+  walk(ast, linter);
+  checkScope(names.root, linter);
+
+  const directives = findDirectives(ast);
+  return linter.warnings
+    .filter(
+      (warning) =>
+        options.rules?.[warning.rule] !== false &&
+        !isDisabled(directives, warning),
+    )
+    .sort((a, b) => a.loc.start - b.loc.start);
+}
+
+function warn(
+  linter: Linter,
+  rule: LintRule,
+  message: string,
+  node: { loc: Diagnostic["loc"] },
+) {
+  linter.warnings.push({ rule, message, loc: node.loc });
+}
+
+function containsInclude(node: ASTNode): boolean {
+  if (
+    node.type === "call" &&
+    node.callee.type === "identifier" &&
+    node.callee.name === "include"
+  ) {
+    return true;
+  }
+  return childNodes(node).some(containsInclude);
+}
+
+function isBuiltin(name: string): boolean {
+  return (
+    builtinArities.has(name) || name in builtinNamespaces || name === "include"
+  );
+}
+
+function walk(node: ASTNode, linter: Linter) {
+  switch (node.type) {
+    case "identifier": {
+      const definition = linter.names.references.get(node);
+      if (definition) {
+        linter.used.add(definition);
+      }
+      return;
+    }
+    case "assignment":
+      if (node.target.type !== "identifier") {
+        walk(node.target, linter);
+      }
+      walk(node.value, linter);
+      return;
+    case "member":
+      walk(node.object, linter);
+      return;
+    case "import":
+      return;
+    case "call":
+      checkArity(node.callee, node.args.length, node, linter);
+      break;
+    case "statementList":
+      checkReachable(node.statements, linter);
+      break;
+    case "for":
+      walk(node.iterable, linter);
+      walk(node.body, linter);
+      return;
+    case "function":
+      walk(node.body, linter);
+      return;
+  }
+  for (const child of childNodes(node)) {
+    walk(child, linter);
+  }
+}
+
+/**
+ * Warns about the variables `scope` and the scopes inside it define that
+ * shadow builtins or are never used.
+ */
+function checkScope(scope: NameScope, linter: Linter) {
+  for (const [name, definition] of scope.definitions) {
+    if (isBuiltin(name)) {
+      warn(
+        linter,
+        "shadow-builtin",
+        `${name} shadows the builtin of the same name`,
+        definition.node,
+      );
+    }
+  }
+  if (scope.node.type !== "for") {
+    reportUnused(scope, linter);
+  }
+  if (scope.node.type === "function" && !linter.includes) {
+    const params = scope.node.args.map((param) =>
+      scope.definitions.get(param.name)!,
+    );
+    // Parameters before a used one are needed to reach it.
+    const lastUsed = params
+      .map((param) => linter.used.has(param))
+      .lastIndexOf(true);
+    for (const param of params.slice(lastUsed + 1)) {
+      warn(
+        linter,
+        "unused-parameter",
+        `Parameter ${param.node.name} is never used`,
+        param.node,
+      );
+    }
+  }
+  for (const child of scope.children) {
+    checkScope(child, linter);
+  }
+}
+
+function reportUnused(scope: NameScope, linter: Linter) {
+  if (linter.includes) {
+    return;
+  }
+  for (const [name, definition] of scope.definitions) {
+    if (linter.used.has(definition) || definition.exported) {
+      continue;
+    }
+    if (definition.kind === "variable") {
+      warn(
+        linter,
+        "unused-variable",
+        `${name} is assigned but never used`,
+        definition.node,
+      );
+    } else if (
+      definition.kind === "import" ||
+      definition.kind === "namespace"
+    ) {
+      warn(
+        linter,
+        "unused-variable",
+        `${name} is imported but never used`,
+        definition.node,
+      );
+    }
+  }
+}
+
+/**
+ * Checks a call to a builtin, or to a variable only ever assigned a lambda,
+ * against the number of parameters it has.
+ */
+function checkArity(
+  callee: ASTNode,
+  count: number,
+  node: ASTNode,
+  linter: Linter,
+) {
+  if (callee.type !== "identifier") {
+    return;
+  }
+  const definition = linter.names.references.get(callee);
+  let arities: number[] | undefined;
+  if (definition) {
+    const { value } = definition;
+    arities =
+      definition.assignments === 1 && value?.type === "function"
+        ? [value.args.length]
+        : undefined;
+  } else {
+    arities = builtinArities.get(callee.name);
+  }
+  if (!arities || arities.includes(count)) {
+    return;
+  }
+  const sorted = [...new Set(arities)].sort((a, b) => a - b);
+  warn(
+    linter,
+    "arity",
+    `${callee.name}() takes ${sorted.join(" or ")} argument${sorted.at(-1) === 1 ? "" : "s"} but was given ${count}`,
+    node,
+  );
+}
+
+/** Warns about the first statement that runs after one that always jumps. */
+function checkReachable(statements: ASTNode[], linter: Linter) {
+  let jump: string | undefined;
+  for (const statement of statements) {
+    if (statement.type === "comment") {
+      continue;
+    }
+    if (jump) {
+      warn(linter, "unreachable", `Unreachable code after ${jump}`, statement);
+      return;
+    }
+    jump = alwaysJumps(statement);
+  }
+}
+
+/** The statement `node` always ends with a jump by, if it does. */
+function alwaysJumps(node: ASTNode): string | undefined {
+  switch (node.type) {
+    case "return":
+    case "break":
+    case "continue":
+      return node.type;
+    case "if": {
+      const then = alwaysJumps(node.then);
+      return node.else && alwaysJumps(node.else) ? then : undefined;
+    }
+    case "block":
+      for (const statement of node.body.statements) {
+        const jump = alwaysJumps(statement);
+        if (jump) {
+          return jump;
+        }
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * A `# lint-disable` comment turns rules off from its line on, and
+ * `# lint-enable` turns them back on. `# lint-disable-line` and
+ * `# lint-disable-next-line` affect one line. Each takes the rules to turn
+ * off, separated by commas or spaces, or none to mean all of them.
+ */
+type Directive = {
+  kind: "disable" | "enable" | "disable-line" | "disable-next-line";
+  rules?: string[];
+  line: number;
+};
+
+function findDirectives(ast: ASTNode): Directive[] {
+  const directives: Directive[] = [];
+  const visit = (node: ASTNode) => {
+    if (node.type === "comment") {
+      const directive = parseDirective(node);
+      if (directive) {
+        directives.push(directive);
+      }
+    }
+    childNodes(node).forEach(visit);
+  };
+  visit(ast);
+  return directives.sort((a, b) => a.line - b.line);
+}
+
+function parseDirective(node: CommentNode): Directive | undefined {
+  const match =
+    /^#\s*lint-(disable-next-line|disable-line|disable|enable)\b(.*)$/.exec(
+      node.value.trim(),
+    );
+  if (!match) {
+    return undefined;
+  }
+  const rules = match[2]!.split(/[\s,]+/).filter((rule) => rule !== "");
+  return {
+    kind: match[1] as Directive["kind"],
+    rules: rules.length > 0 ? rules : undefined,
+    line: node.loc.line0,
+  };
+}
+
+function isDisabled(directives: Directive[], warning: LintWarning): boolean {
+  const line = warning.loc.line0;
+  let disabled = false;
+  for (const directive of directives) {
+    if (directive.rules && !directive.rules.includes(warning.rule)) {
+      continue;
+    }
+    switch (directive.kind) {
+      case "disable":
+      case "enable":
+        if (directive.line <= line) {
+          disabled = directive.kind === "disable";
+        }
+        break;
+      case "disable-line":
+        disabled ||= directive.line === line;
+        break;
+      case "disable-next-line":
+        disabled ||= directive.line + 1 === line;
+        break;
+    }
+  }
+  return disabled;
+}
+
+/**
+ * The nearest `.tinyfnlint.json` in `dir` or above it, if there is one.
+ */
+export function findLintConfig(dir: string): string | undefined {
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    const file = path.join(current, lintConfigName);
+    if (fs.existsSync(file)) {
+      return file;
+    }
+    if (path.dirname(current) === current) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Reads a lint config file: `{ "rules": { "unused-parameter": false } }`.
+ * Throws if it isn't valid JSON or names a rule that doesn't exist.
+ */
+export function loadLintConfig(file: string): LintOptions {
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (e) {
+    throw new Error(
+      `Cannot read ${file}: ${e instanceof Error ? e.message : e}`,
+    );
+  }
+  const rules = (config as LintOptions | null)?.rules ?? {};
+  for (const [rule, enabled] of Object.entries(rules)) {
+    if (!(lintRules as readonly string[]).includes(rule)) {
+      throw new Error(`Unknown lint rule ${rule} in ${file}`);
+    }
+    if (typeof enabled !== "boolean") {
+      throw new Error(`Lint rule ${rule} in ${file} must be true or false`);
+    }
+  }
+  return { rules };
+}
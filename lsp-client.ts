@@ -0,0 +1,349 @@
+/**
+ * A scripted editor session with `tinyfn lsp`: starts the server over stdio,
+ * opens a document, asks for everything the server offers and checks the
+ * answers. Exits with 1 if any answer is wrong.
+ *
+ *   pnpm lsp:client
+ */
+import { ChildProcess, spawn } from "child_process";
+import path from "path";
+import { pathToFileURL } from "url";
+import { dedent } from "./dedent";
+import { semanticTokenModifiers, semanticTokenTypes } from "./lsp";
+
+type Message = {
+  id?: number | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+type Response<T> = { result?: T; error?: Message["error"] };
+type Range = {
+  start: { line: number; character: number };
+  end: { line: number; character: number };
+};
+type Hover = { contents: { value: string } };
+type Diagnostic = { range: Range; severity: number; code?: string };
+
+/** How long to wait for the server before giving up on a step. */
+const timeoutMs = 10000;
+
+class LspClient {
+  private server: ChildProcess;
+  private buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private pending = new Map<number, (message: Message) => void>();
+  private notifications: Message[] = [];
+  private waiting?: { method: string; resolve: (params: unknown) => void };
+  exited: Promise<number | null>;
+
+  constructor() {
+    this.server = spawn(
+      process.execPath,
+      [...process.execArgv, path.join(__dirname, "cli.ts"), "lsp"],
+      { stdio: ["pipe", "pipe", "inherit"] },
+    );
+    this.server.stdout!.on("data", (chunk: Buffer) => this.receive(chunk));
+    this.exited = new Promise((resolve) => this.server.on("exit", resolve));
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) {
+        return;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+      const length = Number(/Content-Length: *(\d+)/i.exec(header)?.[1]);
+      const bodyStart = headerEnd + 4;
+      if (this.buffer.length < bodyStart + length) {
+        return;
+      }
+      const message = JSON.parse(
+        this.buffer.subarray(bodyStart, bodyStart + length).toString("utf-8"),
+      ) as Message;
+      this.buffer = this.buffer.subarray(bodyStart + length);
+      if (message.id !== undefined && message.id !== null && !message.method) {
+        this.pending.get(message.id)?.(message);
+        this.pending.delete(message.id);
+      } else if (this.waiting && this.waiting.method === message.method) {
+        this.waiting.resolve(message.params);
+        this.waiting = undefined;
+      } else {
+        this.notifications.push(message);
+      }
+    }
+  }
+
+  private send(message: object) {
+    const json = JSON.stringify({ jsonrpc: "2.0", ...message });
+    this.server.stdin!.write(
+      `Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`,
+    );
+  }
+
+  request<T>(method: string, params?: unknown): Promise<Response<T>> {
+    const id = this.nextId++;
+    this.send({ id, method, params });
+    return withTimeout(
+      method,
+      new Promise((resolve) =>
+        this.pending.set(id, (message) => resolve(message as Response<T>)),
+      ),
+    );
+  }
+
+  /** Writes `text` to the server as it is, framed or not. */
+  write(text: string) {
+    this.server.stdin!.write(text);
+  }
+
+  /** Error responses to messages the server couldn't read. */
+  unreadable(): Array<Message["error"]> {
+    return this.notifications.filter((n) => n.id === null).map((n) => n.error);
+  }
+
+  notify(method: string, params?: unknown) {
+    this.send({ method, params });
+  }
+
+  /** The params of the next notification from the server with `method`. */
+  notification<T>(method: string): Promise<T> {
+    const index = this.notifications.findIndex((n) => n.method === method);
+    if (index >= 0) {
+      return Promise.resolve(
+        this.notifications.splice(index, 1)[0]!.params as T,
+      );
+    }
+    return withTimeout(
+      method,
+      new Promise(
+        (resolve) =>
+          (this.waiting = {
+            method,
+            resolve: (params) => resolve(params as T),
+          }),
+      ),
+    );
+  }
+
+  kill() {
+    this.server.kill();
+  }
+}
+
+function withTimeout<T>(what: string, promise: Promise<T>): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) =>
+      setTimeout(
+        () => reject(new Error(`No answer to ${what}`)),
+        timeoutMs,
+      ).unref(),
+    ),
+  ]);
+}
+
+const uri = pathToFileURL(path.join(__dirname, "session.tfn")).href;
+
+const program = dedent`
+  # Squares and sums
+  square = (x: number) => x * x;
+  total = 0;
+  for n in range(4) {
+    total = total + square(n);
+  }
+  print("total: \${total}");
+  unused = len("abc");
+`;
+
+let failures = 0;
+
+function expect(step: string, ok: boolean, actual: unknown) {
+  if (ok) {
+    console.log(`ok   ${step}`);
+  } else {
+    failures++;
+    console.log(`FAIL ${step}: got ${JSON.stringify(actual)}`);
+  }
+}
+
+/** Decodes semantic tokens into `line:character type[.modifier...]`. */
+function decodeTokens(data: number[]): string[] {
+  const result: string[] = [];
+  let line = 0;
+  let character = 0;
+  for (let i = 0; i < data.length; i += 5) {
+    const [deltaLine, deltaStart, , type, modifiers] = data.slice(i, i + 5);
+    line += deltaLine!;
+    character = deltaLine === 0 ? character + deltaStart! : deltaStart!;
+    const names = semanticTokenModifiers.filter(
+      (_, bit) => modifiers! & (1 << bit),
+    );
+    result.push(
+      [`${line}:${character} ${semanticTokenTypes[type!]}`, ...names].join("."),
+    );
+  }
+  return result;
+}
+
+async function main() {
+  const client = new LspClient();
+  try {
+    const init = await client.request<{
+      capabilities: { hoverProvider?: boolean };
+    }>("initialize", {
+      processId: process.pid,
+      rootUri: null,
+      capabilities: {},
+    });
+    expect(
+      "initialize offers hover",
+      init.result?.capabilities?.hoverProvider === true,
+      init.result,
+    );
+    client.notify("initialized", {});
+
+    client.notify("textDocument/didOpen", {
+      textDocument: { uri, languageId: "tinyfn", version: 1, text: program },
+    });
+    const { diagnostics } = await client.notification<{
+      diagnostics: Diagnostic[];
+    }>("textDocument/publishDiagnostics");
+    expect(
+      "didOpen reports the unused variable and nothing else",
+      diagnostics.length === 1 &&
+        diagnostics[0]!.code === "unused-variable" &&
+        diagnostics[0]!.range.start.line === 7,
+      diagnostics,
+    );
+
+    // `square` in `square(n)` on line 4.
+    const callSite = {
+      textDocument: { uri },
+      position: { line: 4, character: 20 },
+    };
+    const hover = await client.request<Hover>("textDocument/hover", callSite);
+    expect(
+      "hover shows the inferred signature",
+      !!hover.result?.contents.value.includes(
+        "(variable) square: (number) => number",
+      ),
+      hover.result,
+    );
+
+    const builtinHover = await client.request<Hover>("textDocument/hover", {
+      textDocument: { uri },
+      position: { line: 7, character: 10 },
+    });
+    expect(
+      "hover shows a builtin's signatures",
+      !!builtinHover.result?.contents.value.includes(
+        "(builtin) len: ([A]) => number",
+      ),
+      builtinHover.result,
+    );
+
+    const definition = await client.request<{ uri: string; range: Range }>(
+      "textDocument/definition",
+      callSite,
+    );
+    expect(
+      "definition goes to the assignment",
+      definition.result?.uri === uri &&
+        definition.result.range.start.line === 1 &&
+        definition.result.range.start.character === 0,
+      definition.result,
+    );
+
+    const completion = await client.request<Array<{ label: string }>>(
+      "textDocument/completion",
+      { textDocument: { uri }, position: { line: 4, character: 4 } },
+    );
+    const labels = (completion.result ?? []).map((item) => item.label);
+    expect(
+      "completion lists locals, globals and builtins",
+      ["n", "total", "square", "args", "len"].every((label) =>
+        labels.includes(label),
+      ),
+      labels,
+    );
+
+    const symbols = await client.request<Array<{ name: string }>>(
+      "textDocument/documentSymbol",
+      { textDocument: { uri } },
+    );
+    const symbolNames = (symbols.result ?? []).map((symbol) => symbol.name);
+    expect(
+      "document symbols are the top-level variables",
+      symbolNames.join() === "square,total,unused",
+      symbolNames,
+    );
+
+    const tokens = await client.request<{ data: number[] }>(
+      "textDocument/semanticTokens/full",
+      { textDocument: { uri } },
+    );
+    const decoded = decodeTokens(tokens.result?.data ?? []);
+    expect(
+      "semantic tokens classify comments, functions, parameters and types",
+      [
+        "0:0 comment",
+        "1:0 function.declaration",
+        "1:10 parameter.declaration",
+        "1:13 type",
+        "3:0 keyword",
+        "4:18 function",
+        "6:0 function.defaultLibrary",
+        "6:16 variable",
+      ].every((token) => decoded.includes(token)),
+      decoded,
+    );
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: "square = (x => x;\nprint(y);\n" }],
+    });
+    const changed = await client.notification<{
+      diagnostics: Diagnostic[];
+    }>("textDocument/publishDiagnostics");
+    expect(
+      "didChange reports parse errors",
+      changed.diagnostics.some((diagnostic) => diagnostic.severity === 1),
+      changed.diagnostics,
+    );
+
+    const unknown = await client.request("textDocument/rename", callSite);
+    expect(
+      "unknown methods are errors",
+      unknown.error?.code === -32601,
+      unknown,
+    );
+
+    client.write("Content-Length: 5\r\n\r\n{bad}");
+    client.write("Content-Type: text/plain\r\n\r\n");
+    const after = await client.request("textDocument/hover", callSite);
+    expect(
+      "malformed messages get a parse error and don't stop the server",
+      client.unreadable()[0]?.code === -32700 && after.error === undefined,
+      { errors: client.unreadable(), after },
+    );
+
+    const shutdown = await client.request("shutdown");
+    expect("shutdown", shutdown.result === null, shutdown);
+    client.notify("exit");
+    const code = await withTimeout("exit", client.exited);
+    expect("exit after shutdown exits with 0", code === 0, code);
+  } catch (e) {
+    failures++;
+    console.log(`FAIL ${e instanceof Error ? e.message : e}`);
+    client.kill();
+  }
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
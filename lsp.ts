@@ -0,0 +1,914 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { builtinNamespaces, builtinTypes, check } from "./check";
+import { findLintConfig, lint, loadLintConfig } from "./lint";
+import { isTestFile, testGlobalTypes } from "./testing";
+import {
+  ASTNode,
+  Definition,
+  Diagnostic,
+  ErrorWithSource,
+  IdentifierNode,
+  NameScope,
+  Names,
+  NodeLocation,
+  StatementListNode,
+  Token,
+  TypeNode,
+  childNodes,
+  keywords,
+  parseWithDiagnostics,
+  resolveNames,
+  tokenize,
+} from "./tinyfn";
+
+export type LanguageServerOptions = {
+  input: NodeJS.ReadableStream;
+  output: NodeJS.WritableStream;
+};
+
+/**
+ * The globals `tinyfn run` defines on top of the builtins, and those
+ * `tinyfn test` adds in test files.
+ */
+function hostGlobals(file?: string): { [name: string]: string | string[] } {
+  return {
+    args: "[string]",
+    ...(file && isTestFile(file) ? testGlobalTypes : {}),
+  };
+}
+
+/** Words that are keywords only where they appear: `if`, `import ... as`. */
+const contextualKeywords = new Set(["if", "from", "as"]);
+
+export const semanticTokenTypes = [
+  "keyword",
+  "string",
+  "number",
+  "comment",
+  "operator",
+  "function",
+  "parameter",
+  "variable",
+  "property",
+  "type",
+  "namespace",
+] as const;
+
+export const semanticTokenModifiers = [
+  "declaration",
+  "defaultLibrary",
+] as const;
+
+type SemanticTokenType = (typeof semanticTokenTypes)[number];
+
+// The parts of the protocol the server uses, as its JSON looks on the wire.
+type Message = {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+type Position = { line: number; character: number };
+type Range = { start: Position; end: Position };
+type Location = { uri: string; range: Range };
+type TextDocumentPositionParams = {
+  textDocument: { uri: string };
+  position: Position;
+};
+type LspDiagnostic = {
+  range: Range;
+  severity: 1 | 2;
+  code?: string;
+  source: "tinyfn";
+  message: string;
+};
+type DocumentSymbol = {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: Range;
+  selectionRange: Range;
+  children: DocumentSymbol[];
+};
+
+const errorCodes = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  internalError: -32603,
+};
+
+const definitionLabels: { [kind in Definition["kind"]]: string } = {
+  variable: "variable",
+  parameter: "parameter",
+  loop: "loop variable",
+  import: "import",
+  namespace: "module",
+};
+
+const completionKinds = { function: 3, module: 9, variable: 6 };
+const symbolKinds = { namespace: 3, function: 12, variable: 13 };
+
+/** Sent back to the client as the error of the request that threw it. */
+class ResponseError extends Error {
+  constructor(
+    public code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+type Analysis = {
+  /** The offset each line starts at. */
+  lines: number[];
+  tokens: Token[];
+  ast?: StatementListNode;
+  names?: Names;
+  /** Inferred types, present if the document parsed without errors. */
+  types: Map<IdentifierNode, string>;
+  diagnostics: LspDiagnostic[];
+};
+
+type Document = {
+  uri: string;
+  /** The path of the document, if it is a file. */
+  file?: string;
+  text: string;
+  analysis?: Analysis;
+};
+
+type Server = {
+  documents: Map<string, Document>;
+  send: (message: Message) => void;
+  shutdown: boolean;
+};
+
+/**
+ * Speaks the Language Server Protocol over `input` and `output`, giving
+ * diagnostics, hover, go to definition, completion, document symbols and
+ * semantic tokens for tinyfn documents. Resolves with an exit code when the
+ * client sends `exit` or the input closes.
+ */
+export function startLanguageServer({
+  input,
+  output,
+}: LanguageServerOptions): Promise<number> {
+  const server: Server = {
+    documents: new Map(),
+    send: (message) => {
+      const json = JSON.stringify(message);
+      output.write(`Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`);
+    },
+    shutdown: false,
+  };
+
+  return new Promise((resolve) => {
+    let buffer = Buffer.alloc(0);
+    const finish = (code: number) => {
+      input.removeAllListeners("data");
+      resolve(code);
+    };
+
+    input.on("data", (chunk: Buffer | string) => {
+      buffer = Buffer.concat([buffer, Buffer.from(chunk)]);
+      for (;;) {
+        const headerEnd = buffer.indexOf("\r\n\r\n");
+        if (headerEnd < 0) {
+          return;
+        }
+        const header = buffer.subarray(0, headerEnd).toString("ascii");
+        const length = /Content-Length: *(\d+)/i.exec(header)?.[1];
+        const bodyStart = headerEnd + 4;
+        if (length === undefined) {
+          // Without a length there is no telling where the body ends.
+          buffer = buffer.subarray(bodyStart);
+          continue;
+        }
+        const bodyEnd = bodyStart + Number(length);
+        if (buffer.length < bodyEnd) {
+          return;
+        }
+        const body = buffer.subarray(bodyStart, bodyEnd);
+        buffer = buffer.subarray(bodyEnd);
+        let message: Message;
+        try {
+          message = JSON.parse(body.toString("utf-8")) as Message;
+        } catch (e) {
+          server.send({
+            jsonrpc: "2.0",
+            id: null,
+            error: { code: errorCodes.parseError, message: `${e}` },
+          });
+          continue;
+        }
+        if (typeof message !== "object" || message === null) {
+          server.send({
+            jsonrpc: "2.0",
+            id: null,
+            error: {
+              code: errorCodes.invalidRequest,
+              message: "A message must be an object",
+            },
+          });
+          continue;
+        }
+        if (message.method === "exit") {
+          finish(server.shutdown ? 0 : 1);
+          return;
+        }
+        receive(server, message);
+      }
+    });
+    input.on("end", () => finish(server.shutdown ? 0 : 1));
+  });
+}
+
+function receive(server: Server, message: Message) {
+  const { id, method } = message;
+  if (method === undefined) {
+    // A response to a request of ours; the server doesn't make any.
+    return;
+  }
+  try {
+    const result = handle(server, method, message.params);
+    if (id !== undefined) {
+      server.send({ jsonrpc: "2.0", id, result: result ?? null });
+    }
+  } catch (e) {
+    const error =
+      e instanceof ResponseError
+        ? { code: e.code, message: e.message }
+        : { code: errorCodes.internalError, message: `${e}` };
+    if (id !== undefined) {
+      server.send({ jsonrpc: "2.0", id, error });
+    } else {
+      server.send({
+        jsonrpc: "2.0",
+        method: "window/logMessage",
+        params: { type: 1, message: `${method}: ${error.message}` },
+      });
+    }
+  }
+}
+
+/** Does what `method` asks, returning the result if it is a request. */
+function handle(server: Server, method: string, params: unknown): unknown {
+  if (server.shutdown) {
+    throw new ResponseError(errorCodes.invalidRequest, "Server is shut down");
+  }
+  switch (method) {
+    case "initialize":
+      return {
+        capabilities: {
+          textDocumentSync: 1,
+          hoverProvider: true,
+          definitionProvider: true,
+          completionProvider: {},
+          documentSymbolProvider: true,
+          semanticTokensProvider: {
+            legend: {
+              tokenTypes: semanticTokenTypes,
+              tokenModifiers: semanticTokenModifiers,
+            },
+            full: true,
+          },
+        },
+        serverInfo: { name: "tinyfn" },
+      };
+    case "shutdown":
+      server.shutdown = true;
+      return null;
+    case "textDocument/didOpen": {
+      const { textDocument } = params as {
+        textDocument: { uri: string; text: string };
+      };
+      const file = textDocument.uri.startsWith("file:")
+        ? fileURLToPath(textDocument.uri)
+        : undefined;
+      const document = { uri: textDocument.uri, file, text: textDocument.text };
+      server.documents.set(textDocument.uri, document);
+      publishDiagnostics(server, document);
+      return;
+    }
+    case "textDocument/didChange": {
+      const { textDocument, contentChanges } = params as {
+        textDocument: { uri: string };
+        contentChanges: Array<{ text: string }>;
+      };
+      const document = getDocument(server, textDocument.uri);
+      // Changes are whole documents, as asked for in `textDocumentSync`.
+      document.text = contentChanges.at(-1)?.text ?? document.text;
+      document.analysis = undefined;
+      publishDiagnostics(server, document);
+      return;
+    }
+    case "textDocument/didClose": {
+      const { textDocument } = params as { textDocument: { uri: string } };
+      server.documents.delete(textDocument.uri);
+      server.send({
+        jsonrpc: "2.0",
+        method: "textDocument/publishDiagnostics",
+        params: { uri: textDocument.uri, diagnostics: [] },
+      });
+      return;
+    }
+    case "textDocument/hover":
+      return hover(server, params as TextDocumentPositionParams);
+    case "textDocument/definition":
+      return definition(server, params as TextDocumentPositionParams);
+    case "textDocument/completion":
+      return completion(server, params as TextDocumentPositionParams);
+    case "textDocument/documentSymbol": {
+      const { textDocument } = params as { textDocument: { uri: string } };
+      return documentSymbols(
+        analyze(server, getDocument(server, textDocument.uri)),
+      );
+    }
+    case "textDocument/semanticTokens/full": {
+      const { textDocument } = params as { textDocument: { uri: string } };
+      const document = getDocument(server, textDocument.uri);
+      return semanticTokens(document.text, analyze(server, document));
+    }
+    case "initialized":
+      return;
+    default:
+      if (method.startsWith("$/")) {
+        return;
+      }
+      throw new ResponseError(
+        errorCodes.methodNotFound,
+        `Unknown method ${method}`,
+      );
+  }
+}
+
+function getDocument(server: Server, uri: string): Document {
+  const document = server.documents.get(uri);
+  if (!document) {
+    throw new ResponseError(errorCodes.invalidRequest, `${uri} is not open`);
+  }
+  return document;
+}
+
+function publishDiagnostics(server: Server, document: Document) {
+  server.send({
+    jsonrpc: "2.0",
+    method: "textDocument/publishDiagnostics",
+    params: {
+      uri: document.uri,
+      diagnostics: analyze(server, document).diagnostics,
+    },
+  });
+}
+
+/**
+ * Tokenizes, parses, checks and lints `document`, unless that was done since
+ * it last changed.
+ */
+function analyze(server: Server, document: Document): Analysis {
+  if (document.analysis) {
+    return document.analysis;
+  }
+  const { text, file } = document;
+  const analysis: Analysis = {
+    lines: lineStarts(text),
+    tokens: [],
+    types: new Map(),
+    diagnostics: [],
+  };
+  document.analysis = analysis;
+  const toLsp = (diagnostic: Diagnostic, severity: 1 | 2, code?: string) => ({
+    range: rangeOf(analysis, diagnostic.loc),
+    severity,
+    code,
+    source: "tinyfn" as const,
+    message: diagnostic.message,
+  });
+
+  try {
+    analysis.tokens = tokenize(text, file);
+  } catch (e) {
+    if (!(e instanceof ErrorWithSource)) {
+      throw e;
+    }
+    const start = offsetAt(analysis, {
+      line: e.args.line - 1,
+      character: e.args.col - 1,
+    });
+    const end = start + (e.args.length ?? 1);
+    analysis.diagnostics.push({
+      range: {
+        start: positionAt(analysis, start),
+        end: positionAt(analysis, end),
+      },
+      severity: 1,
+      source: "tinyfn",
+      message: e.args.message ?? "Unexpected token",
+    });
+    return analysis;
+  }
+
+  const parsed = parseWithDiagnostics({ tokens: analysis.tokens });
+  analysis.ast = parsed.ast;
+  analysis.names = resolveNames(parsed.ast);
+  analysis.diagnostics.push(
+    ...parsed.diagnostics.map((diagnostic) => toLsp(diagnostic, 1)),
+  );
+  if (parsed.diagnostics.length > 0) {
+    // Type errors in a half-parsed program would mostly be noise.
+    return analysis;
+  }
+
+  const readFile = (path: string) =>
+    [...server.documents.values()].find((d) => d.file === path)?.text ??
+    fs.readFileSync(path, "utf-8");
+  const typeErrors = check(parsed.ast, {
+    file,
+    globals: hostGlobals(file),
+    readFile,
+    types: analysis.types,
+  });
+  analysis.diagnostics.push(
+    ...typeErrors
+      // Errors in imported modules are reported when they are opened.
+      .filter((diagnostic) => diagnostic.loc.file === file)
+      .map((diagnostic) => toLsp(diagnostic, 1)),
+  );
+
+  let lintOptions = {};
+  const config = file && findLintConfig(path.dirname(file));
+  if (config) {
+    try {
+      lintOptions = loadLintConfig(config);
+    } catch {
+      // A broken config shouldn't stop the rest of the analysis.
+    }
+  }
+  analysis.diagnostics.push(
+    ...lint(parsed.ast, lintOptions).map((warning) =>
+      toLsp(warning, 2, warning.rule),
+    ),
+  );
+  return analysis;
+}
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  const newline = /\r\n|\r|\n/g;
+  for (let match; (match = newline.exec(text));) {
+    starts.push(match.index + match[0].length);
+  }
+  return starts;
+}
+
+function positionAt(analysis: Analysis, offset: number): Position {
+  const { lines } = analysis;
+  let low = 0;
+  let high = lines.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lines[mid]! <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low, character: offset - lines[low]! };
+}
+
+function offsetAt(analysis: Analysis, position: Position): number {
+  const { lines } = analysis;
+  const line = Math.min(Math.max(position.line, 0), lines.length - 1);
+  return lines[line]! + position.character;
+}
+
+function rangeOf(analysis: Analysis, loc: NodeLocation): Range {
+  return {
+    start: positionAt(analysis, loc.start),
+    end: positionAt(analysis, loc.start + loc.length),
+  };
+}
+
+function contains(node: ASTNode, offset: number): boolean {
+  return node.loc.start <= offset && offset <= node.loc.start + node.loc.length;
+}
+
+/** The identifier naming a variable at `position`, if there is one. */
+function identifierAt(
+  analysis: Analysis,
+  position: Position,
+): IdentifierNode | undefined {
+  const offset = offsetAt(analysis, position);
+  return analysis.names?.identifiers.find((node) => contains(node, offset));
+}
+
+function hover(server: Server, params: TextDocumentPositionParams) {
+  const analysis = analyze(
+    server,
+    getDocument(server, params.textDocument.uri),
+  );
+  const node = identifierAt(analysis, params.position);
+  if (!node) {
+    return null;
+  }
+  const definition = analysis.names!.references.get(node);
+  let lines: string[];
+  if (definition) {
+    const label = definitionLabels[definition.kind];
+    const type = analysis.types.get(definition.node);
+    lines = [`(${label}) ${node.name}${type ? `: ${type}` : ""}`];
+  } else if (node.name in builtinTypes) {
+    const signatures = builtinTypes[node.name]!;
+    lines = (typeof signatures === "string" ? [signatures] : signatures).map(
+      (signature) => `(builtin) ${node.name}: ${signature}`,
+    );
+  } else if (node.name in builtinNamespaces) {
+    lines = Object.entries(builtinNamespaces[node.name]!).flatMap(
+      ([name, signatures]) =>
+        (typeof signatures === "string" ? [signatures] : signatures).map(
+          (signature) => `(builtin) ${node.name}.${name}: ${signature}`,
+        ),
+    );
+  } else {
+    return null;
+  }
+  return {
+    contents: {
+      kind: "markdown",
+      value: ["```tinyfn", ...lines, "```"].join("\n"),
+    },
+    range: rangeOf(analysis, node.loc),
+  };
+}
+
+function definition(
+  server: Server,
+  params: TextDocumentPositionParams,
+): Location | null {
+  const document = getDocument(server, params.textDocument.uri);
+  const analysis = analyze(server, document);
+  const node = identifierAt(analysis, params.position);
+  const found = node && analysis.names!.references.get(node);
+  if (!found) {
+    return null;
+  }
+  if (found.kind === "import" && found.statement.type === "import") {
+    const specifier = found.statement.specifiers.find(
+      (s) => s.local === found.node,
+    )!;
+    const exported = findExport(
+      server,
+      document,
+      found.statement.source.value as string,
+      specifier.imported.name,
+    );
+    if (exported) {
+      return exported;
+    }
+  }
+  return { uri: document.uri, range: rangeOf(analysis, found.node.loc) };
+}
+
+/** Where the module at `source` exports `name`, if it can be read. */
+function findExport(
+  server: Server,
+  document: Document,
+  source: string,
+  name: string,
+): Location | undefined {
+  if (!document.file) {
+    return undefined;
+  }
+  const file = path.resolve(path.dirname(document.file), source);
+  const uri = pathToFileURL(file).href;
+  let module = server.documents.get(uri);
+  if (!module) {
+    try {
+      module = { uri, file, text: fs.readFileSync(file, "utf-8") };
+    } catch {
+      return undefined;
+    }
+  }
+  const { ast } = analyze(server, module);
+  for (const statement of ast?.statements ?? []) {
+    if (
+      statement.type === "export" &&
+      statement.declaration.target.name === name
+    ) {
+      return {
+        uri,
+        range: rangeOf(module.analysis!, statement.declaration.target.loc),
+      };
+    }
+  }
+  return undefined;
+}
+
+function completion(server: Server, params: TextDocumentPositionParams) {
+  const document = getDocument(server, params.textDocument.uri);
+  const analysis = analyze(server, document);
+  const items = new Map<
+    string,
+    { label: string; kind: number; detail?: string }
+  >();
+  if (analysis.names) {
+    const offset = offsetAt(analysis, params.position);
+    let scope = analysis.names.root;
+    for (;;) {
+      const inner = scope.children.find((child) =>
+        contains(child.node, offset),
+      );
+      if (!inner) {
+        break;
+      }
+      scope = inner;
+    }
+    for (let s: NameScope | undefined = scope; s; s = s.parent) {
+      for (const [name, definition] of s.definitions) {
+        if (items.has(name)) {
+          continue;
+        }
+        const kind =
+          definition.kind === "namespace"
+            ? completionKinds.module
+            : definition.value?.type === "function"
+              ? completionKinds.function
+              : completionKinds.variable;
+        const detail = analysis.types.get(definition.node);
+        items.set(name, { label: name, kind, detail });
+      }
+    }
+  }
+  for (const [name, signature] of Object.entries({
+    ...builtinTypes,
+    ...hostGlobals(document.file),
+  })) {
+    if (!items.has(name)) {
+      const detail = typeof signature === "string" ? signature : signature[0]!;
+      const kind = detail.startsWith("(")
+        ? completionKinds.function
+        : completionKinds.variable;
+      items.set(name, { label: name, kind, detail });
+    }
+  }
+  for (const [name, members] of Object.entries(builtinNamespaces)) {
+    if (!items.has(name)) {
+      const detail = Object.keys(members).join(", ");
+      items.set(name, { label: name, kind: completionKinds.module, detail });
+    }
+  }
+  return [...items.values()];
+}
+
+function documentSymbols(analysis: Analysis): DocumentSymbol[] {
+  return analysis.names ? scopeSymbols(analysis.names.root, analysis) : [];
+}
+
+/**
+ * The variables, imports and lambdas' locals defined in `scope`, including
+ * those of blocks inside it, which editors show as part of the outline.
+ */
+function scopeSymbols(scope: NameScope, analysis: Analysis): DocumentSymbol[] {
+  const symbols: DocumentSymbol[] = [];
+  for (const [name, definition] of scope.definitions) {
+    if (definition.kind === "parameter" || definition.kind === "loop") {
+      continue;
+    }
+    const { value } = definition;
+    const functionScope =
+      value?.type === "function"
+        ? analysis.names!.scopes.get(value)
+        : undefined;
+    symbols.push({
+      name,
+      detail: analysis.types.get(definition.node),
+      kind:
+        definition.kind === "namespace"
+          ? symbolKinds.namespace
+          : functionScope
+            ? symbolKinds.function
+            : symbolKinds.variable,
+      range: rangeOf(analysis, definition.statement.loc),
+      selectionRange: rangeOf(analysis, definition.node.loc),
+      children: functionScope ? scopeSymbols(functionScope, analysis) : [],
+    });
+  }
+  for (const child of scope.children) {
+    if (child.node.type !== "function") {
+      symbols.push(...scopeSymbols(child, analysis));
+    }
+  }
+  return symbols.sort(
+    (a, b) =>
+      a.selectionRange.start.line - b.selectionRange.start.line ||
+      a.selectionRange.start.character - b.selectionRange.start.character,
+  );
+}
+
+type SemanticToken = {
+  start: number;
+  length: number;
+  type: SemanticTokenType;
+  modifiers: number;
+};
+
+/**
+ * Semantic tokens for `text` in the protocol's encoding: five numbers per
+ * token, its line and start relative to the previous token's, its length, its
+ * index in `semanticTokenTypes` and a bit set of `semanticTokenModifiers`.
+ */
+function semanticTokens(text: string, analysis: Analysis): { data: number[] } {
+  const identifiers = classifyIdentifiers(analysis);
+  const result: SemanticToken[] = [];
+  const add = (start: number, length: number, type: SemanticTokenType) =>
+    result.push({ start, length, type, modifiers: 0 });
+
+  const visit = (token: Token) => {
+    switch (token.type) {
+      case "comment":
+        add(token.start, token.length, "comment");
+        break;
+      case "literal":
+        add(
+          token.start,
+          token.length,
+          typeof token.value === "string"
+            ? "string"
+            : typeof token.value === "boolean"
+              ? "keyword"
+              : "number",
+        );
+        break;
+      case "template": {
+        let textStart = token.start;
+        for (const part of token.value) {
+          if (typeof part === "string" || part.length === 0) {
+            continue;
+          }
+          const first = part[0]!;
+          const last = part.at(-1)!;
+          add(textStart, first.start - textStart, "string");
+          part.forEach(visit);
+          textStart = last.start + last.length;
+        }
+        add(textStart, token.start + token.length - textStart, "string");
+        break;
+      }
+      case "identifier": {
+        const classified = identifiers.get(token.start);
+        if (classified) {
+          result.push(classified);
+        } else if (
+          keywords.has(token.value) ||
+          contextualKeywords.has(token.value)
+        ) {
+          add(token.start, token.length, "keyword");
+        }
+        break;
+      }
+      case "operator":
+      case "arrow":
+      case "assign":
+        if (/^[^\w\s()[\]{},.:;]/.test(token.value)) {
+          add(token.start, token.length, "operator");
+        }
+        break;
+    }
+  };
+  analysis.tokens.forEach(visit);
+
+  const data: number[] = [];
+  let previous: Position = { line: 0, character: 0 };
+  for (const token of result) {
+    // Tokens can't span lines, so multiline strings are split at newlines.
+    let start = token.start;
+    const end = token.start + token.length;
+    while (start < end) {
+      const position = positionAt(analysis, start);
+      const nextLine = analysis.lines[position.line + 1] ?? Infinity;
+      const line = text.slice(start, Math.min(end, nextLine));
+      const length = line.replace(/[\r\n]+$/, "").length;
+      if (length > 0) {
+        data.push(
+          position.line - previous.line,
+          position.line === previous.line
+            ? position.character - previous.character
+            : position.character,
+          length,
+          semanticTokenTypes.indexOf(token.type),
+          token.modifiers,
+        );
+        previous = position;
+      }
+      start = Math.min(end, nextLine);
+    }
+  }
+  return { data };
+}
+
+/** What each identifier in the AST is, keyed by where it starts. */
+function classifyIdentifiers(analysis: Analysis): Map<number, SemanticToken> {
+  const result = new Map<number, SemanticToken>();
+  const names = analysis.names;
+  if (!names || !analysis.ast) {
+    return result;
+  }
+  const add = (
+    node: { loc: NodeLocation },
+    type: SemanticTokenType,
+    ...modifiers: Array<(typeof semanticTokenModifiers)[number]>
+  ) => {
+    result.set(node.loc.start, {
+      start: node.loc.start,
+      length: node.loc.length,
+      type,
+      modifiers: modifiers.reduce(
+        (bits, modifier) =>
+          bits | (1 << semanticTokenModifiers.indexOf(modifier)),
+        0,
+      ),
+    });
+  };
+
+  for (const node of names.identifiers) {
+    const definition = names.references.get(node);
+    if (!definition) {
+      if (node.name in builtinTypes) {
+        add(node, "function", "defaultLibrary");
+      } else if (node.name in builtinNamespaces) {
+        add(node, "namespace", "defaultLibrary");
+      } else {
+        add(node, "variable");
+      }
+      continue;
+    }
+    const type =
+      definition.kind === "parameter"
+        ? "parameter"
+        : definition.kind === "namespace"
+          ? "namespace"
+          : definition.value?.type === "function"
+            ? "function"
+            : "variable";
+    if (definition.node === node) {
+      add(node, type, "declaration");
+    } else {
+      add(node, type);
+    }
+  }
+
+  const visitType = (node: TypeNode) => {
+    switch (node.type) {
+      case "namedType":
+        add(node, "type");
+        break;
+      case "listType":
+        visitType(node.item);
+        break;
+      case "recordType":
+        for (const field of node.fields) {
+          add(field.key, "property");
+          visitType(field.value);
+        }
+        break;
+      case "functionType":
+        node.params.forEach(visitType);
+        visitType(node.result);
+        break;
+    }
+  };
+  const visit = (node: ASTNode) => {
+    switch (node.type) {
+      case "member":
+        add(node.property, "property");
+        break;
+      case "record":
+        for (const field of node.fields) {
+          add(field.key, "property");
+        }
+        break;
+      case "import":
+        for (const { imported, local } of node.specifiers) {
+          if (imported !== local) {
+            add(imported, "property");
+          }
+        }
+        break;
+      case "function":
+        for (const param of node.args) {
+          if (param.annotation) {
+            visitType(param.annotation);
+          }
+        }
+        break;
+    }
+    childNodes(node).forEach(visit);
+  };
+  visit(analysis.ast);
+  return result;
+}
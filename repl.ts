@@ -0,0 +1,178 @@
+import path from "path";
+import readline from "readline";
+import { inspect } from "util";
+import {
+  ErrorWithSource,
+  EvalState,
+  ExitSignal,
+  RunOptions,
+  Token,
+  createEvalState,
+  evaluate,
+  formatAST,
+  formatToken,
+  parse,
+  tokenize,
+} from "./tinyfn";
+
+export type ReplOptions = RunOptions & {
+  input: NodeJS.ReadableStream;
+  output: NodeJS.WritableStream;
+};
+
+const help = `\
+:load <file>   evaluate a file in the current environment
+:ast <expr>    show the AST of an expression
+:tokens <expr> show the tokens of an expression
+:reset         forget everything defined so far
+:help          show this message
+:quit          exit the REPL`;
+
+/**
+ * Reads tinyfn from `input` line by line, evaluating each complete statement
+ * list in one environment that lives until `:reset`. Resolves with an exit
+ * code when the input closes, `:quit` is entered or the program calls `exit`.
+ */
+export function startRepl({
+  input,
+  output,
+  ...runOptions
+}: ReplOptions): Promise<number> {
+  const write = (text: string) => {
+    output.write(text);
+  };
+  const options = { stdout: write, stderr: write, ...runOptions };
+  let state: EvalState = createEvalState(options);
+  let buffer = "";
+  let exitCode = 0;
+  let closed = false;
+
+  const rl = readline.createInterface({
+    input,
+    output,
+    prompt: "> ",
+    terminal: "isTTY" in output && Boolean(output.isTTY),
+  });
+
+  function report(e: unknown) {
+    if (e instanceof ExitSignal) {
+      exitCode = e.code;
+      rl.close();
+    } else if (e instanceof ErrorWithSource) {
+      write(`${e.message}\n`);
+    } else if (e instanceof Error) {
+      write(`${e.stack}\n`);
+    } else {
+      throw e;
+    }
+  }
+
+  function command(line: string) {
+    const [, name, arg = ""] = /^:(\S+)\s*(.*)$/.exec(line.trim())!;
+    switch (name) {
+      case "load": {
+        const file = path.resolve(arg);
+        let src: string;
+        try {
+          src = state.io.readFile(arg);
+        } catch (e) {
+          write(`Cannot read ${arg}: ${e}\n`);
+          break;
+        }
+        evaluate(parse({ tokens: tokenize(src, file) }), {
+          ...state,
+          file,
+        });
+        break;
+      }
+      case "ast":
+        write(`${formatAST(parse({ tokens: tokenize(arg) }))}\n`);
+        break;
+      case "tokens":
+        write(`${tokenize(arg).map(formatToken).join("\n")}\n`);
+        break;
+      case "reset":
+        state = createEvalState(options);
+        break;
+      case "help":
+        write(`${help}\n`);
+        break;
+      case "quit":
+        rl.close();
+        break;
+      default:
+        write(`Unknown command :${name}, try :help\n`);
+    }
+  }
+
+  rl.on("close", () => {
+    closed = true;
+  });
+
+  function prompt() {
+    if (!closed) {
+      rl.prompt();
+    }
+  }
+
+  rl.on("line", (line) => {
+    if (closed) {
+      return;
+    }
+    if (!buffer && line.trim().startsWith(":")) {
+      try {
+        command(line);
+      } catch (e) {
+        report(e);
+      }
+      prompt();
+      return;
+    }
+
+    buffer += `${line}\n`;
+    if (isIncomplete(buffer)) {
+      rl.setPrompt("... ");
+      prompt();
+      return;
+    }
+
+    const src = buffer;
+    buffer = "";
+    rl.setPrompt("> ");
+    try {
+      const result = evaluate(parse({ tokens: tokenize(src) }), state);
+      if (result !== undefined) {
+        write(`${inspect(result)}\n`);
+      }
+    } catch (e) {
+      report(e);
+    }
+    prompt();
+  });
+
+  rl.prompt();
+  return new Promise((resolve) => rl.on("close", () => resolve(exitCode)));
+}
+
+/** Whether `src` has unclosed brackets, so the REPL should keep reading. */
+function isIncomplete(src: string): boolean {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(src);
+  } catch {
+    // let evaluation report the error
+    return false;
+  }
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.type !== "operator") {
+      continue;
+    }
+    if ("([{".includes(token.value)) {
+      depth++;
+    } else if (")]}".includes(token.value)) {
+      depth--;
+    }
+  }
+  return depth > 0;
+}
@@ -0,0 +1,361 @@
+import fs from "fs";
+import path from "path";
+import { performance } from "perf_hooks";
+import { inspect } from "util";
+import {
+  ASTNode,
+  BuiltinError,
+  ErrorWithSource,
+  EvalState,
+  ExitSignal,
+  createEvalState,
+  evaluate,
+  parse,
+  tokenize,
+} from "./tinyfn";
+
+export type TestResult = {
+  file: string;
+  /** `<top level>` when the file itself failed to parse or run. */
+  name: string;
+  /** `failure` for a failed assertion, `error` for anything else thrown. */
+  outcome: "pass" | "failure" | "error";
+  /** The error, with its location, if the test didn't pass. */
+  message?: string;
+  /** What the test and the top level before it printed. */
+  output: string;
+  /** Milliseconds. */
+  time: number;
+};
+
+/** Types of the globals test files get, for `check` and the editor. */
+export const testGlobalTypes: { [name: string]: string | string[] } = {
+  test: "(string, () => A) => undefined",
+  assertEq: "(A, A) => undefined",
+  assertThrows: ["(() => A) => string", "(() => A, string) => string"],
+};
+
+export function isTestFile(file: string): boolean {
+  return file.endsWith(".test.tfn");
+}
+
+/**
+ * The test files in `paths`: files named there, and `*.test.tfn` files in
+ * directories named there and below, except hidden ones and `node_modules`.
+ */
+export function findTestFiles(paths: string[]): string[] {
+  const files: string[] = [];
+  const visit = (file: string, named: boolean) => {
+    if (fs.statSync(file).isDirectory()) {
+      for (const entry of fs.readdirSync(file).sort()) {
+        if (!entry.startsWith(".") && entry !== "node_modules") {
+          visit(path.join(file, entry), false);
+        }
+      }
+    } else if (named || isTestFile(file)) {
+      files.push(file);
+    }
+  };
+  for (const file of paths) {
+    visit(file, true);
+  }
+  return files;
+}
+
+/**
+ * Runs each `test(name, fn)` in `file`. Every test gets a fresh run of the
+ * file's top level, so globals and imported modules a test changes are back
+ * to how the file left them for the next one.
+ */
+export function runTestFile(file: string): TestResult[] {
+  const topLevel = (start: number, e: unknown, output = ""): TestResult => ({
+    file,
+    name: "<top level>",
+    outcome: "error",
+    message: errorMessage(e),
+    output,
+    time: performance.now() - start,
+  });
+
+  const start = performance.now();
+  let ast: ASTNode;
+  try {
+    ast = parse({
+      tokens: tokenize(fs.readFileSync(file, "utf-8"), path.resolve(file)),
+    });
+  } catch (e) {
+    return [topLevel(start, e)];
+  }
+
+  const results: TestResult[] = [];
+  for (let index = 0; ; index++) {
+    const start = performance.now();
+    const run = createTestRun(file);
+    try {
+      evaluate(ast, run.state);
+    } catch (e) {
+      // Every test would fail the same way.
+      return [...results, topLevel(start, e, run.output.text)];
+    }
+    const registered = run.tests[index];
+    if (!registered) {
+      return results;
+    }
+    run.topLevelDone = true;
+    let outcome: TestResult["outcome"] = "pass";
+    let message: string | undefined;
+    try {
+      registered.fn();
+    } catch (e) {
+      outcome = isAssertionFailure(run, e) ? "failure" : "error";
+      message = errorMessage(e);
+    }
+    results.push({
+      file,
+      name: registered.name,
+      outcome,
+      message,
+      output: run.output.text,
+      time: performance.now() - start,
+    });
+  }
+}
+
+type TestRun = {
+  state: EvalState;
+  tests: Array<{ name: string; fn: () => unknown }>;
+  output: { text: string };
+  /** Set once the top level has run; `test` can't be called after that. */
+  topLevelDone: boolean;
+  /** The message of the last failed assertion, to tell failures from errors. */
+  failedAssertion?: string;
+};
+
+function createTestRun(file: string): TestRun {
+  const output = { text: "" };
+  const write = (text: string) => {
+    output.text += text;
+  };
+  const fail = (message: string): never => {
+    run.failedAssertion = message;
+    throw new BuiltinError(message);
+  };
+
+  const run: TestRun = {
+    tests: [],
+    output,
+    topLevelDone: false,
+    state: createEvalState({
+      file,
+      stdout: write,
+      stderr: write,
+      globals: {
+        args: [],
+        test: (name: unknown, fn: unknown) => {
+          if (run.topLevelDone) {
+            throw new BuiltinError(
+              "test() can only be called at the top level of a test file",
+            );
+          }
+          if (typeof name !== "string" || typeof fn !== "function") {
+            throw new BuiltinError("test() expects a name and a function");
+          }
+          run.tests.push({ name, fn: fn as () => unknown });
+        },
+        assertEq: (actual: unknown, expected: unknown) => {
+          if (!deepEqual(actual, expected)) {
+            fail(
+              `assertEq failed: expected ${inspect(expected)}, got ${inspect(actual)}`,
+            );
+          }
+        },
+        assertThrows: (fn: unknown, expected?: unknown): string => {
+          if (typeof fn !== "function") {
+            throw new BuiltinError("assertThrows() expects a function");
+          }
+          try {
+            fn();
+          } catch (e) {
+            if (!(e instanceof ErrorWithSource)) {
+              throw e;
+            }
+            const message = e.args.message ?? e.message;
+            if (typeof expected === "string" && !message.includes(expected)) {
+              fail(
+                `assertThrows failed: expected an error containing ${inspect(expected)}, got ${inspect(message)}`,
+              );
+            }
+            return message;
+          }
+          return fail("assertThrows failed: the function didn't throw");
+        },
+      },
+    }),
+  };
+  return run;
+}
+
+/** Whether `e` is a failed assertion rather than some other error. */
+function isAssertionFailure(run: TestRun, e: unknown): boolean {
+  return (
+    e instanceof ErrorWithSource &&
+    run.failedAssertion !== undefined &&
+    e.args.message === run.failedAssertion
+  );
+}
+
+function errorMessage(e: unknown): string {
+  if (e instanceof ExitSignal) {
+    return `exit(${e.code}) was called`;
+  }
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Structural equality: lists and records by their items and fields, anything
+ * else like `==`, except that NaN equals NaN.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b || (Number.isNaN(a) && Number.isNaN(b))) {
+    return true;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => deepEqual(item, b[i]))
+    );
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function isRecord(value: unknown): value is { [k: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** A line per test, with the error and output of each that didn't pass. */
+export function formatResults(results: TestResult[]): string {
+  const lines = results.map((result) => {
+    const line = `${result.outcome === "pass" ? "ok  " : "FAIL"} ${displayName(result)}`;
+    if (result.outcome === "pass") {
+      return line;
+    }
+    return [line, indent(result.message ?? ""), indent(result.output)]
+      .filter((text) => text.trim() !== "")
+      .join("\n");
+  });
+  const failed = results.filter((result) => result.outcome !== "pass").length;
+  lines.push("", `${results.length - failed} passed, ${failed} failed`);
+  return lines.join("\n");
+}
+
+/** The results in the Test Anything Protocol, version 13. */
+export function formatTap(results: TestResult[]): string {
+  const lines = ["TAP version 13", `1..${results.length}`];
+  results.forEach((result, i) => {
+    const ok = result.outcome === "pass" ? "ok" : "not ok";
+    lines.push(`${ok} ${i + 1} - ${displayName(result).replace(/#/g, "\\#")}`);
+    if (result.outcome !== "pass") {
+      lines.push(
+        "  ---",
+        `  outcome: ${result.outcome}`,
+        "  message: |",
+        indent(stripColor(result.message ?? ""), "    "),
+        "  ...",
+      );
+    }
+    for (const line of splitOutput(result.output)) {
+      lines.push(`# ${line}`);
+    }
+  });
+  return lines.join("\n");
+}
+
+/** The results as JUnit XML, a `testsuite` per file. */
+export function formatJUnit(results: TestResult[]): string {
+  const files = new Map<string, TestResult[]>();
+  for (const result of results) {
+    files.set(result.file, [...(files.get(result.file) ?? []), result]);
+  }
+  const count = (results: TestResult[], outcome: TestResult["outcome"]) =>
+    results.filter((result) => result.outcome === outcome).length;
+  const seconds = (results: TestResult[]) =>
+    (results.reduce((sum, result) => sum + result.time, 0) / 1000).toFixed(3);
+  const attributes = (results: TestResult[]) =>
+    `tests="${results.length}" failures="${count(results, "failure")}" errors="${count(results, "error")}" time="${seconds(results)}"`;
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites ${attributes(results)}>`,
+  ];
+  for (const [file, suite] of files) {
+    const name = escapeXml(displayPath(file));
+    lines.push(`  <testsuite name="${name}" ${attributes(suite)}>`);
+    for (const result of suite) {
+      const testcase = `    <testcase name="${escapeXml(result.name)}" classname="${name}" time="${seconds([result])}"`;
+      if (result.outcome === "pass" && result.output === "") {
+        lines.push(`${testcase}/>`);
+        continue;
+      }
+      lines.push(`${testcase}>`);
+      if (result.outcome !== "pass") {
+        const message = stripColor(result.message ?? "");
+        lines.push(
+          `      <${result.outcome} message="${escapeXml(message.split("\n")[0]!)}">${escapeXml(message)}</${result.outcome}>`,
+        );
+      }
+      if (result.output !== "") {
+        lines.push(
+          `      <system-out>${escapeXml(result.output)}</system-out>`,
+        );
+      }
+      lines.push("    </testcase>");
+    }
+    lines.push("  </testsuite>");
+  }
+  lines.push("</testsuites>");
+  return lines.join("\n");
+}
+
+function displayName(result: TestResult): string {
+  return `${displayPath(result.file)} > ${result.name}`;
+}
+
+function displayPath(file: string): string {
+  return path.relative(process.cwd(), path.resolve(file));
+}
+
+function splitOutput(output: string): string[] {
+  return output === "" ? [] : output.replace(/\n$/, "").split("\n");
+}
+
+function indent(text: string, prefix = "    "): string {
+  return splitOutput(text)
+    .map((line) => prefix + line)
+    .join("\n");
+}
+
+/** Removes the terminal colors error messages use for their carets. */
+function stripColor(text: string): string {
+  return text.replace(/\x1b\[\d+m/g, "");
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      // Control characters other than tabs and newlines aren't allowed in XML.
+      .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "")
+      .replace(
+        /[<>&"]/g,
+        (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" })[c]!,
+      )
+  );
+}
@@ -0,0 +1,756 @@
+/**
+ * Unit tests for the tokenizer, each parse function, name resolution, the
+ * type checker, each kind of node the evaluator runs and the REPL's
+ * commands. Whole programs are covered by conformance/.
+ *
+ *   pnpm test:unit
+ */
+import assert from "assert/strict";
+import fs from "fs";
+import { describe, it } from "node:test";
+import os from "os";
+import path from "path";
+import { PassThrough } from "stream";
+import { check } from "./check";
+import { startRepl } from "./repl";
+import { inspect } from "util";
+import {
+  ASTNode,
+  EvalError,
+  IdentifierNode,
+  LimitError,
+  ParseErrors,
+  RunOptions,
+  TemplatePart,
+  UnexpectedTokenError,
+  formatToken,
+  parse,
+  parseType,
+  resolveNames,
+  run,
+  tokenize,
+} from "./tinyfn";
+
+/** Tokens as `{line:col type value}`, joined by spaces. */
+function tokens(src: string): string {
+  return tokenize(src).map(formatToken).join(" ");
+}
+
+/** `src`'s statements as S-expressions, one per line. */
+function ast(src: string): string {
+  const list = parse({ tokens: tokenize(src) });
+  assert.equal(list.type, "statementList");
+  return list.statements.map(show).join("\n");
+}
+
+/** Every parse function `parse` went through for `src`, in order. */
+function parsersUsed(src: string): string[] {
+  const names: string[] = [];
+  parse({
+    tokens: tokenize(src),
+    trace: (line) => names.push(line.trim().split(" ")[0]!),
+  });
+  return names;
+}
+
+function show(node: ASTNode): string {
+  switch (node.type) {
+    case "comment":
+      return node.value;
+    case "literal":
+      return inspect(node.value);
+    case "template":
+      return `(template ${node.parts.map((part) => (typeof part === "string" ? inspect(part) : show(part))).join(" ")})`;
+    case "identifier":
+      return node.name;
+    case "assignment":
+      return `(= ${show(node.target)} ${show(node.value)})`;
+    case "call":
+      return `(${[node.callee, ...node.args].map(show).join(" ")})`;
+    case "function": {
+      const params = node.args.map((param) =>
+        param.annotation
+          ? `${param.name}:${param.annotation.type}`
+          : param.name,
+      );
+      return `(fn${node.name ? ` ${node.name}` : ""} (${params.join(" ")}) ${show(node.body)})`;
+    }
+    case "statementList":
+      return node.statements.map(show).join(" ");
+    case "block":
+      return `{${show(node.body)}}`;
+    case "unary":
+      return `(${node.operator.name} ${show(node.operand)})`;
+    case "logical":
+      return `(${node.operator.name} ${show(node.left)} ${show(node.right)})`;
+    case "list":
+      return `[${node.items.map(show).join(" ")}]`;
+    case "record":
+      return `{${node.fields.map((field) => `${field.key.name}: ${show(field.value)}`).join(", ")}}`;
+    case "member":
+      return `(. ${show(node.object)} ${node.property.name})`;
+    case "index":
+      return `(index ${show(node.object)} ${show(node.index)})`;
+    case "if":
+      return `(if ${show(node.condition)} ${show(node.then)}${node.else ? ` ${show(node.else)}` : ""})`;
+    case "while":
+      return `(while ${show(node.condition)} ${show(node.body)})`;
+    case "for":
+      return `(for ${node.variable.name} ${show(node.iterable)} ${show(node.body)})`;
+    case "break":
+    case "continue":
+      return `(${node.type})`;
+    case "return":
+      return node.value ? `(return ${show(node.value)})` : "(return)";
+    case "import": {
+      const names = node.specifiers.map((specifier) =>
+        specifier.imported.name === specifier.local.name
+          ? specifier.local.name
+          : `${specifier.imported.name} as ${specifier.local.name}`,
+      );
+      const what = node.namespace
+        ? `* as ${node.namespace.name}`
+        : `{${names.join(", ")}}`;
+      return `(import ${what} ${show(node.source)})`;
+    }
+    case "export":
+      return `(export ${show(node.declaration)})`;
+  }
+}
+
+/** Parse errors for `src`, as `line:col message`. */
+function parseErrors(src: string): string[] {
+  try {
+    parse({ tokens: tokenize(src) });
+  } catch (e) {
+    assert.ok(e instanceof ParseErrors);
+    return e.diagnostics.map(
+      (diagnostic) =>
+        `${diagnostic.loc.line0}:${diagnostic.loc.col0} ${diagnostic.message}`,
+    );
+  }
+  return [];
+}
+
+/**
+ * Runs `src` with both backends, checks that they agree, and returns the
+ * value of its last statement and what it printed.
+ */
+function evaluate(
+  src: string,
+  options: RunOptions = {},
+): { value: unknown; output: string } {
+  const results = [false, true].map((compile) => {
+    let output = "";
+    const value = run(src, {
+      ...options,
+      compile,
+      stdout: (text) => {
+        output += text;
+      },
+    });
+    return { value, output };
+  });
+  assert.deepEqual(results[1], results[0], "the backends differ");
+  return results[0]!;
+}
+
+function value(src: string, options?: RunOptions): unknown {
+  return evaluate(src, options).value;
+}
+
+/** The error `src` fails with at run time, as `line:col message`. */
+function runtimeError(src: string): string {
+  const messages = [false, true].map((compile) => {
+    try {
+      run(src, { compile, stdout: () => {} });
+    } catch (e) {
+      assert.ok(e instanceof EvalError, `threw ${e}`);
+      return `${e.args.line}:${e.args.col} ${e.args.message}`;
+    }
+    assert.fail(`${src} didn't fail`);
+  });
+  assert.equal(messages[1], messages[0], "the backends differ");
+  return messages[0]!;
+}
+
+describe("tokenize", () => {
+  it("tokenizes identifiers, operators and literals with their positions", () => {
+    assert.equal(
+      tokens("x = 1.5;"),
+      "{1:1 identifier x} {1:3 operator =} {1:5 literal 1.5} {1:8 operator ;}",
+    );
+  });
+
+  it("counts lines and resets the column after a newline", () => {
+    assert.equal(
+      tokens("a\n  b\r\nc"),
+      "{1:1 identifier a} {2:3 identifier b} {3:1 identifier c}",
+    );
+  });
+
+  it("reads booleans, integers, floats and big integers", () => {
+    const values = tokenize("true false 42 0.25 12345678901234567890").map(
+      (token) => token.value,
+    );
+    assert.deepEqual(values, [
+      true,
+      false,
+      42,
+      0.25,
+      BigInt("12345678901234567890"),
+    ]);
+  });
+
+  it("reads multi-character operators as one token", () => {
+    assert.equal(
+      tokenize("a <= b => c != d && e")
+        .filter((token) => token.type === "operator")
+        .map((token) => token.value)
+        .join(" "),
+      "<= => != &&",
+    );
+  });
+
+  it("keeps comments as tokens", () => {
+    assert.equal(
+      tokens("x; # note\n"),
+      "{1:1 identifier x} {1:2 operator ;} {1:4 comment # note}",
+    );
+  });
+
+  it("decodes escapes in both kinds of quotes", () => {
+    const [double, single] = tokenize(
+      `"a\\n\\t\\"\\u{1F600}" 'it\\'s \\$'`,
+    ).map((token) => token.value);
+    assert.equal(double, 'a\n\t"\u{1F600}');
+    assert.equal(single, "it's $");
+  });
+
+  it("splits interpolated strings into text and tokens", () => {
+    const [template] = tokenize('"a${x + 1}b${"c"}"');
+    assert.equal(template?.type, "template");
+    const parts = (template?.value as TemplatePart[]).map((part) =>
+      typeof part === "string" ? part : part.map(formatToken).join(" "),
+    );
+    assert.deepEqual(parts, [
+      "a",
+      "{1:5 identifier x} {1:7 operator +} {1:9 literal 1}",
+      "b",
+      "{1:14 literal c}",
+      "",
+    ]);
+  });
+
+  it("reports unterminated strings where they start", () => {
+    assert.throws(
+      () => tokenize('x = "abc\n'),
+      (e) =>
+        e instanceof UnexpectedTokenError &&
+        e.args.message === "Unterminated string" &&
+        e.args.line === 1 &&
+        e.args.col === 5,
+    );
+  });
+
+  it("reports invalid escapes and characters", () => {
+    assert.throws(
+      () => tokenize('"\\q"'),
+      (e) =>
+        e instanceof UnexpectedTokenError &&
+        e.args.message === "Invalid escape sequence \\q",
+    );
+    assert.throws(
+      () => tokenize("a @ b"),
+      (e) => e instanceof UnexpectedTokenError && e.args.col === 3,
+    );
+  });
+
+  it("reports unterminated interpolations", () => {
+    assert.throws(
+      () => tokenize('"${x"'),
+      (e) =>
+        e instanceof UnexpectedTokenError &&
+        e.args.message?.startsWith("Unterminated") === true,
+    );
+  });
+});
+
+describe("parse", () => {
+  /** For each parse function, a program that goes through it and its AST. */
+  const cases: Array<[string, string, string]> = [
+    ["parseStatementList", "a; b;", "a\nb"],
+    ["parseStatement", "x;", "x"],
+    ["parseComment", "# hi\nx;", "# hi\nx"],
+    ["parseIdentifier", "name;", "name"],
+    ["parseLiteral", "1; 'a'; true;", "1\n'a'\ntrue"],
+    ["parseTemplate", '"a${b}c";', "(template 'a' b 'c')"],
+    ["parseExpression", "(1);", "1"],
+    ["parseAssignment", "x = y = 1;", "(= x (= y 1))"],
+    ["parseCall", "f(1)(2, 3);", "((f 1) 2 3)"],
+    ["parseLambda", "f = (a, b) => a;", "(= f (fn f (a b) a))"],
+    ["parseParam", "(x: number) => x;", "(fn (x:namedType) x)"],
+    ["parseTypeNode", "(x: [number]) => x;", "(fn (x:listType) x)"],
+    ["parseBlock", "{ a; b; };", "{a b}"],
+    ["parseList", "[1, [2], ];", "[1 [2]]"],
+    ["parseFieldName", '{ a: 1, "b c": 2 };', "{a: 1, b c: 2}"],
+    ["parseRecordField", "{ a: 1 };", "{a: 1}"],
+    ["parseRecord", "{};", "{}"],
+    ["parseMember", "a.b.c;", "(. (. a b) c)"],
+    ["parseIndex", "a[0][i];", "(index (index a 0) i)"],
+    ["parseParenthesized", "(1 + 2) * 3;", "(* (+ 1 2) 3)"],
+    ["parsePrimary", "x;", "x"],
+    ["parseTerm", "a.b(c)[d];", "(index ((. a b) c) d)"],
+    ["parseUnary", "!-x;", "(! (- x))"],
+    [
+      "parseBinary",
+      "1 + 2 * 3 < 4 && !b || c;",
+      "(|| (&& (< (+ 1 (* 2 3)) 4) (! b)) c)",
+    ],
+    ["parseOperator", "a - b - c;", "(- (- a b) c)"],
+    ["parseKeyword", "while x { break; }", "(while x {(break)})"],
+    [
+      "parseIf",
+      "if a { 1; } else if b { 2; } else { 3; }",
+      "(if a {1} (if b {2} {3}))",
+    ],
+    ["parseWhile", "while i < 3 { continue; }", "(while (< i 3) {(continue)})"],
+    ["parseFor", "for x in xs { print(x); }", "(for x xs {(print x)})"],
+    ["parseBreak", "for x in xs { break; }", "(for x xs {(break)})"],
+    ["parseContinue", "for x in xs { continue; }", "(for x xs {(continue)})"],
+    [
+      "parseReturn",
+      "() => { return 1; return; };",
+      "(fn () {(return 1) (return)})",
+    ],
+    [
+      "parseImport",
+      'import * as m from "./m.tfn";',
+      "(import * as m './m.tfn')",
+    ],
+    [
+      "parseImportSpecifier",
+      'import { a, b as c } from "./m.tfn";',
+      "(import {a, b as c} './m.tfn')",
+    ],
+    ["parseExport", "export f = 1;", "(export (= f 1))"],
+  ];
+
+  for (const [parser, src, expected] of cases) {
+    it(`${parser}: ${src.replace(/\n/g, " ")}`, () => {
+      // parseTerm always goes through parsePrimary, which isn't traced.
+      const traced = parser === "parsePrimary" ? "parseTerm" : parser;
+      assert.ok(
+        parsersUsed(src).includes(traced),
+        `${parser} wasn't used for ${src}`,
+      );
+      assert.equal(ast(src), expected);
+    });
+  }
+
+  it("parseType: parses annotations on their own", () => {
+    assert.deepEqual(
+      ["number", "[string]", "{ x: number }", "(A, [A]) => boolean"].map(
+        (src) => parseType(src).type,
+      ),
+      ["namedType", "listType", "recordType", "functionType"],
+    );
+  });
+
+  it("makes binary operators of the same precedence left-associative", () => {
+    assert.equal(ast("a / b / c;"), "(/ (/ a b) c)");
+    assert.equal(ast("a == b != c;"), "(!= (== a b) c)");
+  });
+
+  it("tells records from blocks by what follows the brace", () => {
+    assert.equal(ast("x = {};"), "(= x {})");
+    assert.equal(ast("x = { a: 1 };"), "(= x {a: 1})");
+    assert.equal(ast("{ a; }"), "{a}");
+  });
+
+  it("lets statements that end in a block leave out the semicolon", () => {
+    assert.equal(ast("if a { b; } c;"), "(if a {b})\nc");
+  });
+
+  it("reports every syntax error with its location", () => {
+    assert.deepEqual(parseErrors("x = ;\ny = (1;\nz = 2;"), [
+      "1:5 Expected an expression but got ';'",
+      "2:7 Expected ')' to close parenthesized expression started at line 2 but got ';'",
+    ]);
+  });
+
+  it("rejects keywords as names and misplaced statements", () => {
+    assert.equal(parseErrors("while = 1;").length, 1);
+    assert.equal(parseErrors("break;").length, 1);
+    assert.equal(parseErrors("return 1;").length, 1);
+  });
+});
+
+/** Each identifier in `src` as `name@line:col`, with its definition's place. */
+function references(src: string): string[] {
+  const names = resolveNames(parse({ tokens: tokenize(src) }));
+  return names.identifiers.map((node) => {
+    const definition = names.references.get(node);
+    const at = (n: IdentifierNode) => `${n.name}@${n.loc.line0}:${n.loc.col0}`;
+    return `${at(node)} -> ${definition ? at(definition.node) : "?"}`;
+  });
+}
+
+describe("resolveNames", () => {
+  it("a name belongs to the outermost scope that assigns it", () => {
+    assert.deepEqual(references("x = 1;\nf = (a) => { x = a; y = x; };"), [
+      "x@1:1 -> x@1:1",
+      "f@2:1 -> f@2:1",
+      "a@2:6 -> a@2:6",
+      "x@2:14 -> x@1:1",
+      "a@2:18 -> a@2:6",
+      "y@2:21 -> y@2:21",
+      "x@2:25 -> x@1:1",
+    ]);
+  });
+
+  it("counts assignments from any scope, and include calls", () => {
+    const names = resolveNames(
+      parse({
+        tokens: tokenize(
+          'import { a } from "./a.tfn";\nn = 1;\n{ n = 2; include("./b.tfn"); };\nfor i in [] { n = i; }',
+        ),
+      }),
+    );
+    const { definitions } = names.root;
+    assert.deepEqual(
+      [...definitions].map(([name, d]) => `${name} ${d.kind} ${d.assignments}`),
+      ["a import 1", "n variable 3"],
+    );
+    assert.equal(names.root.includes, false);
+    assert.deepEqual(
+      names.root.children.map((scope) => [scope.node.type, scope.includes]),
+      [
+        ["block", true],
+        ["for", false],
+      ],
+    );
+  });
+});
+
+/** The type errors in `src`, as `line:col message`. */
+function typeErrors(src: string): string[] {
+  return check(parse({ tokens: tokenize(src) })).map(
+    ({ message, loc }) => `${loc.line0}:${loc.col0} ${message}`,
+  );
+}
+
+describe("check", () => {
+  it("calls a lambda stored in a record field", () => {
+    assert.deepEqual(typeErrors("o = { m: (x) => x + 1 }; o.m(1);"), []);
+    assert.deepEqual(typeErrors('o = { m: (x) => x + 1 }; o.m(1, "a");'), [
+      "1:26 o.m() takes 1 argument but was given 2",
+    ]);
+  });
+
+  it("calls a lambda stored in a list", () => {
+    assert.deepEqual(typeErrors("fs = [(x) => x + 1]; fs[0](1);"), []);
+    assert.deepEqual(typeErrors("fs = [(x) => x * 2]; fs[0]([1]);"), [
+      "1:28 fs[0]() expects argument 1 to be number, not [number]",
+    ]);
+  });
+});
+
+describe("evaluate", () => {
+  it("literal", () => {
+    assert.equal(value("42;"), 42);
+    assert.equal(value("'s';"), "s");
+    assert.equal(
+      value("12345678901234567890;"),
+      BigInt("12345678901234567890"),
+    );
+  });
+
+  it("template", () => {
+    assert.equal(
+      value('x = 2; "${x} + ${[1]} = ${{ a: x }}";'),
+      "2 + [ 1 ] = { a: 2 }",
+    );
+  });
+
+  it("identifier", () => {
+    assert.equal(value("x = 1; x;"), 1);
+    assert.equal(value("answer;", { globals: { answer: 42 } }), 42);
+    assert.equal(runtimeError("y;"), "1:1 Undefined variable y");
+  });
+
+  it("assignment", () => {
+    assert.deepEqual(value("x = 1; x = x + 1; x;"), 2);
+    assert.deepEqual(value("r = { a: [1] }; r.a[0] = 5; r.b = 2; r;"), {
+      a: [5],
+      b: 2,
+    });
+  });
+
+  it("call", () => {
+    assert.equal(value("add(1, 2);"), 3);
+    assert.equal(
+      runtimeError("x = 1; x();"),
+      "1:8 Cannot call x: it is number 1, not a function",
+    );
+  });
+
+  it("binary operators", () => {
+    assert.deepEqual(value("[1 + 2, 5 - 3, 2 * 3, 7 / 2];"), [3, 2, 6, 3.5]);
+    assert.deepEqual(value("[1 < 2, 2 < 2, 2 <= 2, 3 <= 2, 3 > 2, 2 >= 3];"), [
+      true,
+      false,
+      true,
+      false,
+      true,
+      false,
+    ]);
+    assert.deepEqual(value("[1 == 1, 1 != 1, 'a' + 1];"), [true, false, "a1"]);
+  });
+
+  it("unary", () => {
+    assert.deepEqual(value("[-1, !true, !0];"), [-1, false, true]);
+  });
+
+  it("logical", () => {
+    assert.deepEqual(value("[1 && 2, 0 && x, 0 || 3, 1 || x];"), [2, 0, 3, 1]);
+  });
+
+  it("function", () => {
+    assert.equal(value("f = (a, b) => a * b; f(3, 4);"), 12);
+    assert.equal(value("adder = (n) => (m) => n + m; adder(1)(2);"), 3);
+    assert.equal(value("f = (x) => x; f();"), undefined);
+  });
+
+  it("block", () => {
+    assert.equal(value("x = 1; { x = 2; y = 3; }; x;"), 2);
+    assert.equal(runtimeError("{ y = 3; }; y;"), "1:13 Undefined variable y");
+  });
+
+  it("if", () => {
+    assert.equal(value("if 1 < 2 { 'yes'; } else { 'no'; }"), "yes");
+    assert.equal(value("if false { 1; }"), undefined);
+    assert.equal(value("x = 0; if x { 1; } else if x == 0 { 2; }"), 2);
+  });
+
+  it("while, break and continue", () => {
+    const { output } = evaluate(
+      "i = 0; while true { i = i + 1; if i == 2 { continue; } if i > 3 { break; } print(i); }",
+    );
+    assert.equal(output, "1\n3\n");
+  });
+
+  it("for", () => {
+    assert.equal(value("t = 0; for x in [1, 2, 3] { t = t + x; } t;"), 6);
+    assert.equal(
+      runtimeError("for x in 5 { }"),
+      "1:10 Cannot iterate over non-list 5",
+    );
+  });
+
+  it("return", () => {
+    assert.equal(
+      value("f = () => { for x in [1, 2] { return x; } 'none'; }; f();"),
+      1,
+    );
+    assert.equal(value("f = () => { return; }; f();"), undefined);
+  });
+
+  it("list", () => {
+    assert.deepEqual(value("[1, [2, 'a'], {}];"), [1, [2, "a"], {}]);
+  });
+
+  it("record", () => {
+    assert.deepEqual(value("{ a: 1, 'b c': [2] };"), { a: 1, "b c": [2] });
+  });
+
+  it("member", () => {
+    assert.equal(value("{ a: { b: 2 } }.a.b;"), 2);
+    assert.equal(
+      runtimeError("r = { a: 1 }; r.b;"),
+      "1:17 No field b in record { a: 1 }",
+    );
+  });
+
+  it("index", () => {
+    assert.equal(value("[10, 20][1];"), 20);
+    assert.equal(value("r = { k: 3 }; r['k'];"), 3);
+    assert.equal(
+      runtimeError("[1][2];"),
+      "1:5 Index 2 is out of range for list of length 1",
+    );
+  });
+
+  it("comment", () => {
+    assert.equal(value("1; # the end"), undefined);
+  });
+
+  it("statement list", () => {
+    assert.equal(value("1; 2; 3;"), 3);
+    assert.equal(value(""), undefined);
+  });
+
+  it("import and export", () => {
+    const files: { [file: string]: string } = {
+      "/lib/m.tfn": "export double = (x) => x * 2; hidden = 1;",
+    };
+    const options: RunOptions = {
+      file: "/lib/main.tfn",
+      readFile: (file) => files[file] ?? assert.fail(`read ${file}`),
+    };
+    assert.equal(
+      value('import { double } from "./m.tfn"; double(4);', options),
+      8,
+    );
+    assert.equal(
+      value('import * as m from "./m.tfn"; m.double(1);', options),
+      2,
+    );
+  });
+
+  it("include", () => {
+    const options: RunOptions = {
+      file: "/lib/main.tfn",
+      readFile: () => "included = 5;",
+    };
+    assert.equal(value('include("./other.tfn"); included;', options), 5);
+  });
+
+  it("sandboxed include follows symlinks before checking allowRead", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tinyfn-"));
+    try {
+      fs.mkdirSync(path.join(dir, "lib"));
+      fs.writeFileSync(path.join(dir, "lib", "ok.tfn"), "ok = 1;");
+      fs.writeFileSync(path.join(dir, "secret.tfn"), "secret = 2;");
+      fs.symlinkSync(
+        path.join(dir, "secret.tfn"),
+        path.join(dir, "lib", "link.tfn"),
+      );
+      const options: RunOptions = {
+        file: path.join(dir, "main.tfn"),
+        sandbox: { allowRead: [path.join(dir, "lib")] },
+      };
+      assert.equal(run('include("./lib/ok.tfn"); ok;', options), 1);
+      for (const file of ["./lib/link.tfn", "./lib/missing.tfn"]) {
+        assert.throws(
+          () => run(`include("${file}");`, options),
+          (e) => e instanceof LimitError && e.limit === "file",
+        );
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("input nested too deeply to parse is a parse error, not a crash", () => {
+    for (const src of [
+      `${"(".repeat(5000)}1${")".repeat(5000)};`,
+      `x = 1;\n${"[".repeat(3000)}${"]".repeat(3000)};`,
+    ]) {
+      assert.throws(
+        () => run(src, { sandbox: { fuel: 1000 } }),
+        (e) =>
+          e instanceof ParseErrors &&
+          e.args.message === "Too deeply nested to parse" &&
+          e.args.line === src.split("\n").length,
+      );
+    }
+  });
+
+  it("tail calls don't grow the stack", () => {
+    assert.equal(
+      value(
+        "loop = (n) => { if n == 0 { return 'done'; } loop(n - 1) }; loop(10000);",
+      ),
+      "done",
+    );
+  });
+
+  it("reports deep recursion as a stack overflow at the call", () => {
+    assert.equal(
+      runtimeError("f = (n) => 1 + f(n); f(0);"),
+      "1:16 Stack overflow in call to f: more than 500 nested calls",
+    );
+  });
+});
+
+describe("builtin namespaces", () => {
+  it("list functions leave their arguments alone", () => {
+    assert.deepEqual(
+      value(
+        "xs = [3, 1, 2]; [list.sort(xs), list.reverse(xs), list.map(xs, (x, i) => i), xs];",
+      ),
+      [
+        [1, 2, 3],
+        [2, 1, 3],
+        [0, 1, 2],
+        [3, 1, 2],
+      ],
+    );
+  });
+
+  it("list.sort needs comparable items or a comparator", () => {
+    assert.deepEqual(
+      value("list.sort([1, 10, 2], (a, b) => b - a);"),
+      [10, 2, 1],
+    );
+    assert.equal(
+      runtimeError('list.sort([1, "a"]);'),
+      "1:1 list.sort() without a comparator needs a list of all numbers or all strings",
+    );
+    assert.equal(
+      runtimeError('list.sort([1, 2], (a, b) => "x");'),
+      "1:1 list.sort() expects the comparator to return a number, not string 'x'",
+    );
+  });
+
+  it("math.seed makes math.random repeatable", () => {
+    assert.equal(
+      value(
+        "math.seed(7); a = math.random(); math.seed(7); a == math.random() && a < 1;",
+      ),
+      true,
+    );
+  });
+
+  it("record functions", () => {
+    assert.deepEqual(
+      value("r = { a: 1, b: 2 }; [record.keys(r), record.has(r, 'b')];"),
+      [["a", "b"], true],
+    );
+  });
+
+  it("reports arguments of the wrong type at the call", () => {
+    assert.equal(
+      runtimeError("x = 1;\nrecord.keys(x);"),
+      "2:1 record.keys() expects argument 1 to be a record, not number 1",
+    );
+    assert.equal(
+      runtimeError("math.pow(2);"),
+      "1:1 math.pow() expects argument 2 to be a number, not undefined",
+    );
+  });
+});
+
+describe("startRepl", () => {
+  it(":load of a file it can't read reports it and carries on", async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let text = "";
+    output.on("data", (chunk) => (text += chunk));
+    const exited = startRepl({
+      input,
+      output,
+      readFile: (file) => {
+        throw new Error(`ENOENT: no such file or directory, open '${file}'`);
+      },
+    });
+    input.end(":load missing.tfn\nprint(1);\n");
+    assert.equal(await exited, 0);
+    assert.equal(
+      text,
+      "> Cannot read missing.tfn: Error: ENOENT: no such file or directory, open 'missing.tfn'\n" +
+        "> 1\n> ",
+    );
+  });
+});
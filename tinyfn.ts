@@ -1,98 +1,558 @@
 import fs from "fs";
+import path from "path";
 import process from "process";
+import { inspect } from "util";
 import { dedent } from "./dedent";
 
-const DEBUG = process.env.DEBUG === "1";
+// Sticky, so they match exactly at `lastIndex` without slicing the source.
+const tokenPatterns = {
+  comment: /#[^\r\n]*/y,
+  float: /(?:\d*\.\d+|\d+\.)(?:e\d+)?/y,
+  identifier: /\p{XID_Start}\p{XID_Continue}*/uy,
+  integer: /\d+/y,
+  newline: /\r\n|\r|\n/y,
+  operator: /=>|==|!=|<=|>=|&&|\|\||[,.:+\-*/<>=!()\[\]{};]/y,
+  whitespace: /[ \t]+/y,
+};
+
+function matchAt(pattern: RegExp, src: string, start: number): string | null {
+  pattern.lastIndex = start;
+  return pattern.exec(src)?.[0] ?? null;
+}
 
-function debug(msg: string | (() => string)) {
-  if (!DEBUG) {
-    return;
+/**
+ * The kind and text of the token at `start`. The first character decides
+ * which patterns can apply, so only those run.
+ */
+function scanToken(
+  src: string,
+  start: number,
+): { type: keyof typeof tokenPatterns | "boolean"; text: string } | null {
+  const c = src[start]!;
+  if (c === "#") {
+    return {
+      type: "comment",
+      text: matchAt(tokenPatterns.comment, src, start)!,
+    };
+  }
+  if (c === "\r" || c === "\n") {
+    return {
+      type: "newline",
+      text: matchAt(tokenPatterns.newline, src, start)!,
+    };
+  }
+  if (c === " " || c === "\t") {
+    return {
+      type: "whitespace",
+      text: matchAt(tokenPatterns.whitespace, src, start)!,
+    };
+  }
+  if (isDigit(c) || (c === "." && isDigit(src[start + 1]))) {
+    const float = matchAt(tokenPatterns.float, src, start);
+    if (float) {
+      return { type: "float", text: float };
+    }
+    return {
+      type: "integer",
+      text: matchAt(tokenPatterns.integer, src, start)!,
+    };
   }
-  if (typeof msg === "function") {
-    msg = msg();
+  const identifier = matchAt(tokenPatterns.identifier, src, start);
+  if (identifier) {
+    const type =
+      identifier === "true" || identifier === "false"
+        ? "boolean"
+        : "identifier";
+    return { type, text: identifier };
   }
-  console.log(msg);
+  const operator = matchAt(tokenPatterns.operator, src, start);
+  return operator ? { type: "operator", text: operator } : null;
 }
 
-const tokenPatterns = [
-  ["boolean", /^(?:true|false)/],
-  ["comment", /^#[^\r\n]*/],
-  ["float", /^(?:-?\d*\.\d+|-?\d+\.)(?:e\d+)?/],
-  ["identifier", /^\p{XID_Start}\p{XID_Continue}*/u],
-  ["integer", /^-?\d+/],
-  ["newline", /^(?:\r\n|\r|\n)/],
-  ["operator", /^(?:=>|==|<=|>=|[,+\-*/<>=()\[\]{};])/],
-  ["string", /^(['"])((?:\\.|(?!\1).)*)\1/],
-  ["whitespace", /^[ \t]+/],
-] as const;
+function isDigit(c: string | undefined): boolean {
+  return c !== undefined && c >= "0" && c <= "9";
+}
+
+export type EvalIO = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readFile: (path: string) => string;
+};
+
+export type RunOptions = Partial<EvalIO> & {
+  globals?: { [k: string]: unknown };
+  /** Path of the program being run; imports are resolved relative to it. */
+  file?: string;
+  /** Compile the program to closures up front instead of walking the AST. */
+  compile?: boolean;
+  /**
+   * How many calls can be in progress at once before a call fails with a
+   * stack overflow error. Calls in tail position don't count.
+   */
+  maxDepth?: number;
+  /** Called as the AST walker reaches each statement; see `DebugHook`. */
+  debug?: DebugHook;
+  /** Limits for running code you don't trust. */
+  sandbox?: Sandbox;
+};
+
+/**
+ * What a sandboxed program may do. Going over a limit throws a `LimitError`
+ * at the node that did. Fuel and time are counted afresh for each call to
+ * `evaluate`. Sandboxed programs are always walked, never compiled.
+ */
+export type Sandbox = {
+  /** How many AST nodes the program may evaluate. */
+  fuel?: number;
+  /** How many milliseconds the program may run for. */
+  timeout?: number;
+  /** How deeply calls may nest, if less than `maxDepth`. */
+  maxDepth?: number;
+  /** The most items a list may have. */
+  maxListLength?: number;
+  /** The most characters a string may have. */
+  maxStringLength?: number;
+  /**
+   * Directories `include` and `import` may read files from, including their
+   * subdirectories, once symlinks are resolved. A sandboxed program can't
+   * read any other file.
+   */
+  allowRead?: string[];
+};
+
+/** Which limit a `LimitError` is about. */
+export type Limit = "fuel" | "timeout" | "depth" | "list" | "string" | "file";
 
-function main() {
-  const src = fs.readFileSync(process.stdin.fd, "utf-8");
-  const globals = {
-    print: (x: unknown) => console.log(x),
+/**
+ * Called before each statement runs, and before the body of a lambda that is
+ * a single expression, with the state it runs in. The debugger pauses the
+ * program by not returning. Compiled code doesn't call it.
+ */
+export type DebugHook = (node: ASTNode, state: EvalState) => void;
+
+export const defaultMaxDepth = 500;
+
+export function createBuiltins(
+  io: EvalIO,
+  sandbox: Sandbox = {},
+): { [k: string]: unknown } {
+  return {
+    print: (x: unknown) => {
+      io.stdout(`${toDisplayString(x)}\n`);
+    },
+    eprint: (x: unknown) => {
+      io.stderr(`${toDisplayString(x)}\n`);
+    },
     add: (a: number, b: number) => a + b,
-    "+": (a: number, b: number) => a + b,
+    "+": (a: unknown, b: unknown) =>
+      typeof a === "string" || typeof b === "string"
+        ? toDisplayString(a) + toDisplayString(b)
+        : (a as number) + (b as number),
     "-": (a: number, b: number) => a - b,
     "*": (a: number, b: number) => a * b,
     "/": (a: number, b: number) => a / b,
     "<": (a: number, b: number) => a < b,
-    "<=": (a: number, b: number) => a > b,
+    "<=": (a: number, b: number) => a <= b,
     ">": (a: number, b: number) => a > b,
     ">=": (a: number, b: number) => a >= b,
     "==": (a: number, b: number) => a === b,
     "!=": (a: number, b: number) => a !== b,
-    if: (cond: boolean, then: () => void, else_: () => void) =>
-      cond ? then() : else_(),
-    push: (arr: unknown[], x: unknown) => arr.push(x),
+    if: ifBuiltin,
+    push: (arr: unknown[], x: unknown) => {
+      checkListLength(sandbox, arr.length + 1);
+      return arr.push(x);
+    },
     pop: (arr: unknown[]) => arr.pop(),
     get: (obj: object, k: string | number) => obj[k as keyof typeof obj],
     each: (arr: unknown[], fn: (x: unknown) => void) => arr.forEach(fn),
-    range: (length: number) => Array.from({ length }, (_, i) => i),
+    range: (length: number) => {
+      checkListLength(sandbox, length);
+      return Array.from({ length }, (_, i) => i);
+    },
+    len: (x: string | unknown[]) => {
+      checkArgType("len", 1, x, "string", "list");
+      return x.length;
+    },
+    slice: (x: string | unknown[], start: number, end?: number) => {
+      checkArgType("slice", 1, x, "string", "list");
+      checkArgType("slice", 2, start, "number");
+      if (end !== undefined) {
+        checkArgType("slice", 3, end, "number");
+      }
+      return x.slice(start, end);
+    },
+    split: (s: string, separator: string) => {
+      checkArgType("split", 1, s, "string");
+      checkArgType("split", 2, separator, "string");
+      return s.split(separator);
+    },
+    join: (xs: unknown[], separator = "") => {
+      checkArgType("join", 1, xs, "list");
+      checkArgType("join", 2, separator, "string");
+      return xs.map(toDisplayString).join(separator);
+    },
+    upper: (s: string) => {
+      checkArgType("upper", 1, s, "string");
+      return s.toUpperCase();
+    },
+    lower: (s: string) => {
+      checkArgType("lower", 1, s, "string");
+      return s.toLowerCase();
+    },
+    trim: (s: string) => {
+      checkArgType("trim", 1, s, "string");
+      return s.trim();
+    },
+    replace: (s: string, search: string, replacement: string) => {
+      checkArgType("replace", 1, s, "string");
+      checkArgType("replace", 2, search, "string");
+      checkArgType("replace", 3, replacement, "string");
+      return s.split(search).join(replacement);
+    },
+    str: (x: unknown) => toDisplayString(x),
+    exit: (code = 0) => {
+      checkArgType("exit", 1, code, "number");
+      throw new ExitSignal(code);
+    },
+    parseNum: (s: string) => {
+      checkArgType("parseNum", 1, s, "string");
+      const n = Number(s.trim());
+      if (s.trim() === "" || Number.isNaN(n)) {
+        throw new BuiltinError(
+          `parseNum() can't parse ${inspect(s)} as a number`,
+        );
+      }
+      return n;
+    },
+    list: createListBuiltins(),
+    math: createMathBuiltins(),
+    record: createRecordBuiltins(),
   };
+}
 
-  try {
-    run(src, { globals });
-  } catch (e) {
-    if (e instanceof ErrorWithSource) {
-      console.error(e.message);
-      debug(e.stack!);
-      debug(JSON.stringify({ globals }, null, 2));
-      process.exit(1);
-    } else {
-      throw e;
-    }
+/** `list.map` and friends. They return new lists and leave their own alone. */
+function createListBuiltins(): { [k: string]: Function } {
+  const checkList = (name: string, xs: unknown) =>
+    checkArgType(`list.${name}`, 1, xs, "list");
+  const checkFunction = (name: string, position: number, fn: unknown) =>
+    checkArgType(`list.${name}`, position, fn, "function");
+  return {
+    map: (xs: unknown[], fn: (x: unknown, i: number) => unknown) => {
+      checkList("map", xs);
+      checkFunction("map", 2, fn);
+      const result = [];
+      for (let i = 0; i < xs.length; i++) {
+        result.push(fn(xs[i], i));
+      }
+      return result;
+    },
+    filter: (xs: unknown[], fn: (x: unknown, i: number) => unknown) => {
+      checkList("filter", xs);
+      checkFunction("filter", 2, fn);
+      const result = [];
+      for (let i = 0; i < xs.length; i++) {
+        if (fn(xs[i], i)) {
+          result.push(xs[i]);
+        }
+      }
+      return result;
+    },
+    reduce: (
+      xs: unknown[],
+      fn: (acc: unknown, x: unknown) => unknown,
+      init: unknown,
+    ) => {
+      checkList("reduce", xs);
+      checkFunction("reduce", 2, fn);
+      let acc = init;
+      for (let i = 0; i < xs.length; i++) {
+        acc = fn(acc, xs[i]);
+      }
+      return acc;
+    },
+    sort: (xs: unknown[], compare?: (a: unknown, b: unknown) => unknown) => {
+      checkList("sort", xs);
+      if (compare === undefined) {
+        const type = typeOf(xs[0]);
+        if (
+          (type !== "number" && type !== "string") ||
+          !xs.every((x) => typeOf(x) === type)
+        ) {
+          throw new BuiltinError(
+            "list.sort() without a comparator needs a list of all numbers or all strings",
+          );
+        }
+        return xs
+          .slice()
+          .sort((a, b) =>
+            (a as number) < (b as number)
+              ? -1
+              : (a as number) > (b as number)
+                ? 1
+                : 0,
+          );
+      }
+      checkFunction("sort", 2, compare);
+      return xs.slice().sort((a, b) => {
+        const order = compare(a, b);
+        if (typeof order !== "number") {
+          throw new BuiltinError(
+            `list.sort() expects the comparator to return a number, not ${describeValue(order)}`,
+          );
+        }
+        return order;
+      });
+    },
+    zip: (xs: unknown[], ys: unknown[]) => {
+      checkList("zip", xs);
+      checkArgType("list.zip", 2, ys, "list");
+      return Array.from({ length: Math.min(xs.length, ys.length) }, (_, i) => [
+        xs[i],
+        ys[i],
+      ]);
+    },
+    flat: (xs: unknown[]) => {
+      checkList("flat", xs);
+      const result = [];
+      for (const x of xs) {
+        if (Array.isArray(x)) {
+          result.push(...x);
+        } else {
+          result.push(x);
+        }
+      }
+      return result;
+    },
+    find: (xs: unknown[], fn: (x: unknown) => unknown) => {
+      checkList("find", xs);
+      checkFunction("find", 2, fn);
+      for (const x of xs) {
+        if (fn(x)) {
+          return x;
+        }
+      }
+      return undefined;
+    },
+    slice: (xs: unknown[], start: number, end?: number) => {
+      checkList("slice", xs);
+      checkArgType("list.slice", 2, start, "number");
+      if (end !== undefined) {
+        checkArgType("list.slice", 3, end, "number");
+      }
+      return xs.slice(start, end);
+    },
+    concat: (xs: unknown[], ys: unknown[]) => {
+      checkList("concat", xs);
+      checkArgType("list.concat", 2, ys, "list");
+      return xs.concat(ys);
+    },
+    len: (xs: unknown[]) => {
+      checkList("len", xs);
+      return xs.length;
+    },
+    reverse: (xs: unknown[]) => {
+      checkList("reverse", xs);
+      return xs.slice().reverse();
+    },
+  };
+}
+
+/**
+ * `math.floor` and friends. `random` draws from a generator of its own,
+ * seeded from the clock until `seed` fixes the sequence.
+ */
+function createMathBuiltins(): { [k: string]: Function } {
+  const checkNumbers = (name: string, ...xs: unknown[]) =>
+    xs.forEach((x, i) => checkArgType(`math.${name}`, i + 1, x, "number"));
+  let state = Date.now() >>> 0;
+  return {
+    floor: (x: number) => {
+      checkNumbers("floor", x);
+      return Math.floor(x);
+    },
+    sqrt: (x: number) => {
+      checkNumbers("sqrt", x);
+      return Math.sqrt(x);
+    },
+    pow: (x: number, y: number) => {
+      checkNumbers("pow", x, y);
+      return Math.pow(x, y);
+    },
+    min: (x: number, y: number) => {
+      checkNumbers("min", x, y);
+      return Math.min(x, y);
+    },
+    max: (x: number, y: number) => {
+      checkNumbers("max", x, y);
+      return Math.max(x, y);
+    },
+    // mulberry32: small, fast and good enough for anything but secrets.
+    random: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    seed: (seed: number) => {
+      checkNumbers("seed", seed);
+      state = seed >>> 0;
+    },
+  };
+}
+
+/** `record.keys` and friends. */
+function createRecordBuiltins(): { [k: string]: Function } {
+  const checkRecord = (name: string, r: unknown) =>
+    checkArgType(`record.${name}`, 1, r, "record");
+  return {
+    keys: (r: object) => {
+      checkRecord("keys", r);
+      return Object.keys(r);
+    },
+    values: (r: object) => {
+      checkRecord("values", r);
+      return Object.values(r);
+    },
+    entries: (r: object) => {
+      checkRecord("entries", r);
+      return Object.entries(r);
+    },
+    has: (r: object, key: string) => {
+      checkRecord("has", r);
+      checkArgType("record.has", 2, key, "string");
+      return Object.prototype.hasOwnProperty.call(r, key);
+    },
+  };
+}
+
+/** Tail calls to it call the chosen branch in place; see `runLambda`. */
+const ifBuiltin = (cond: boolean, then: () => void, else_: () => void) =>
+  cond ? then() : else_();
+Object.defineProperty(ifBuiltin, "name", { value: "if" });
+
+/**
+ * Thrown by the `exit` builtin to stop the program. It passes through
+ * `evaluate` and `run` untouched; hosts decide what exiting means.
+ */
+export class ExitSignal {
+  constructor(public code: number) {}
+}
+
+/**
+ * Thrown by builtins when they are called wrong. The evaluator rethrows it as
+ * an `EvalError` pointing at the call, so hosts can throw it from their own
+ * globals too.
+ */
+export class BuiltinError extends Error {}
+
+/** A builtin going over a sandbox limit; rethrown as a `LimitError`. */
+class BuiltinLimitError extends BuiltinError {
+  constructor(
+    public limit: Limit,
+    message: string,
+  ) {
+    super(message);
   }
 }
 
-function run(src: string, { globals = {} } = {}) {
-  const tokens = tokenize(src);
-  debug("▒▒▒ tokens ▒▒▒");
-  debug(() => tokens.map(formatToken).join("\n"));
-  debug("▒▒▒ parsing ▒▒▒");
-  const ast = parse({ tokens });
-  debug("▒▒▒ AST ▒▒▒");
-  debug(() => JSON.stringify(ast, (k, v) => (k === "loc" ? undefined : v), 2));
-  debug("▒▒▒ evaling ▒▒▒");
-  const result = evalNode(ast, { globals });
-  debug(() => JSON.stringify({ globals }, null, 2));
-  console.log(result);
-}
-
-type BaseToken = {
+function checkListLength(sandbox: Sandbox, length: number) {
+  const max = sandbox.maxListLength;
+  if (max !== undefined && length > max) {
+    throw new BuiltinLimitError("list", listTooLong(length, max));
+  }
+}
+
+function listTooLong(length: number, max: number): string {
+  return `List too long: ${length} items is more than the limit of ${max}`;
+}
+
+function stringTooLong(length: number, max: number): string {
+  return `String too long: ${length} characters is more than the limit of ${max}`;
+}
+
+function checkArgType(
+  name: string,
+  position: number,
+  value: unknown,
+  ...types: string[]
+) {
+  if (!types.includes(typeOf(value))) {
+    throw new BuiltinError(
+      `${name}() expects argument ${position} to be a ${types.join(" or ")}, not ${describeValue(value)}`,
+    );
+  }
+}
+
+export function createEvalState({
+  globals = {},
+  stdout = (text) => process.stdout.write(text),
+  stderr = (text) => process.stderr.write(text),
+  readFile = (file) => fs.readFileSync(file, "utf-8"),
+  file,
+  compile = false,
+  maxDepth = defaultMaxDepth,
+  debug,
+  sandbox,
+}: RunOptions = {}): EvalState {
+  const io = { stdout, stderr, readFile };
+  const builtins = new Environment(undefined, true);
+  for (const [name, value] of Object.entries({
+    ...createBuiltins(io, sandbox),
+    ...globals,
+  })) {
+    builtins.define(name, value);
+  }
+  return {
+    env: new Environment(builtins),
+    io,
+    file: file && path.resolve(file),
+    modules: {
+      builtins,
+      cache: new Map(),
+      loading: file ? [path.resolve(file)] : [],
+    },
+    stack: [],
+    compile,
+    maxDepth: Math.min(maxDepth, sandbox?.maxDepth ?? Infinity),
+    debug,
+    limits: sandbox && {
+      ...sandbox,
+      allowRead: (sandbox.allowRead ?? [])
+        .map(realPath)
+        .filter((dir): dir is string => dir !== undefined),
+      fuelLeft: Infinity,
+      steps: 0,
+      deadline: Infinity,
+    },
+  };
+}
+
+export function run(src: string, options: RunOptions = {}): unknown {
+  const ast = parse({
+    tokens: tokenize(src, options.file && path.resolve(options.file)),
+  });
+  return evaluate(ast, createEvalState(options));
+}
+
+export type BaseToken = {
   type?: unknown;
   value?: unknown;
   src: string;
+  /** Path of the file `src` was read from, if any. */
+  file?: string;
   start: number;
   length: number;
   line: number;
   col: number;
 };
 
-type Token = BaseToken &
+export type Token = BaseToken &
   (
     | { type: "comment"; value: string }
     | { type: "identifier"; value: string }
     | { type: "literal"; value: boolean | number | bigint | string }
+    | { type: "template"; value: TemplatePart[] }
     | { type: "operator"; value: string }
     | { type: "arrow"; value: string }
     | { type: "assign"; value: string }
@@ -108,70 +568,123 @@ function getSourceLine(src: string, line: number): string {
   return result;
 }
 
-type ErrorWithSourceParams = {
+/** `file` relative to the working directory, for messages. */
+function displayPath(file: string): string {
+  return path.relative(process.cwd(), file);
+}
+
+export type ErrorWithSourceParams = {
   message?: string;
   src: string;
+  file?: string;
   line: number;
   col: number;
   length?: number;
 };
-class ErrorWithSource extends Error {
+
+/** The source line `args` points at, prefixed by `label`, and a caret under it. */
+function formatExcerpt(
+  args: ErrorWithSourceParams,
+  label: string,
+): [string, string] {
+  const caret = `${" ".repeat(label.length + args.col - 1)}\x1b[31m${"^".repeat(args.length ?? 1)}\x1b[0m`;
+  return [`${label}${getSourceLine(args.src, args.line)}`, caret];
+}
+
+function formatSourceError(args: ErrorWithSourceParams): string {
+  const [source, caret] = formatExcerpt(
+    args,
+    args.file
+      ? `${displayPath(args.file)}:${args.line}: `
+      : `line ${args.line}: `,
+  );
+  return dedent`
+    ${args.message ?? "Error:"}
+    ${source}
+    ${caret}
+  `;
+}
+
+export class ErrorWithSource extends Error {
   args: ErrorWithSourceParams;
 
   constructor(args: ErrorWithSourceParams) {
-    const lineCol = `line ${args.line}: `;
-    const caret = `${" ".repeat(lineCol.length + args.col - 1)}\x1b[31m${"^".repeat(args.length ?? 1)}\x1b[0m`;
-    super(dedent`
-      ${args.message ?? "Error:"}
-      ${lineCol}${getSourceLine(args.src, args.line)}
-      ${caret}
-    `);
+    super(formatSourceError(args));
     this.args = args;
   }
 }
 
-class UnexpectedTokenError extends ErrorWithSource {
+export class UnexpectedTokenError extends ErrorWithSource {
   constructor({ message, ...rest }: ErrorWithSourceParams) {
     super({ message: message ?? "Unexpected token", ...rest });
   }
 }
 
-function tokenize(src: string): Token[] {
+/**
+ * A piece of a string with `${...}` interpolations: either literal text or the
+ * tokens of an interpolated expression.
+ */
+export type TemplatePart = string | Token[];
+
+type SourcePosition = { start: number; line: number; col: number };
+
+/** A run of string characters that need no special handling. */
+const plainStringText = /[^"'\\$\r\n]+/y;
+
+const escapeSequences: { [c: string]: string } = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "0": "\0",
+  "\\": "\\",
+  '"': '"',
+  "'": "'",
+  $: "$",
+};
+
+export function tokenize(src: string, file?: string): Token[] {
+  return tokenizeFrom(src, file, { start: 0, line: 1, col: 1 }, false).tokens;
+}
+
+/**
+ * Tokenizes `src` starting at `position`. Inside a string interpolation this
+ * stops at the `}` that closes it instead of running to the end of input.
+ */
+function tokenizeFrom(
+  src: string,
+  file: string | undefined,
+  position: SourcePosition,
+  interpolation: boolean,
+): { tokens: Token[]; end: SourcePosition } {
   const result: Token[] = [];
-  let start = 0;
-  let line = 1;
-  let col = 1;
+  let { start, line, col } = position;
+  let braceDepth = 0;
 
   while (start < src.length) {
-    const matches = tokenPatterns.flatMap(([type, pattern]) => {
-      const match = src.slice(start).match(pattern);
-      if (match) return [{ type, match }];
-      return [];
-    });
-
-    if (!matches[0]) {
-      throw new UnexpectedTokenError({ src, line, col });
+    if (src[start] === '"' || src[start] === "'") {
+      const string = scanString(src, file, { start, line, col });
+      result.push(string.token);
+      ({ start, line, col } = string.end);
+      continue;
+    }
+    if (interpolation && src[start] === "}" && braceDepth === 0) {
+      break;
     }
 
-    let longest = matches.reduce((longest, match) => {
-      if (match.match[0].length > longest.match[0].length) return match;
-      return longest;
-    }, matches[0]);
-
-    const length = longest.match[0].length;
-
-    const base = {
-      src,
-      length,
-      start,
-      line,
-      col,
-    };
-
+    const scanned = scanToken(src, start);
+    if (!scanned) {
+      throw new UnexpectedTokenError({ src, file, line, col });
+    }
+    const { type, text } = scanned;
+    const length = text.length;
+    // Fields are spelled out rather than spread from a shared base: spreads
+    // compile to a slow helper for es2016 and dominate tokenizing time.
+    const tokenStart = start;
+    const tokenCol = col;
     start += length;
     col += length;
 
-    switch (longest.type) {
+    switch (type) {
       case "whitespace":
         break;
       case "newline": {
@@ -179,65 +692,195 @@ function tokenize(src: string): Token[] {
         col = 1;
         break;
       }
-      case "boolean": {
-        result.push({
-          ...base,
-          type: "literal",
-          value: longest.match[0] === "true",
-        });
-        break;
-      }
-      case "float": {
-        result.push({
-          ...base,
-          type: "literal",
-          value: Number.parseFloat(longest.match[0]),
-        });
-        break;
-      }
+      case "boolean":
+      case "float":
       case "integer": {
-        let value: number | bigint = Number.parseInt(longest.match[0]);
-        if (value > Number.MAX_SAFE_INTEGER) {
-          value = BigInt(longest.match[0]);
+        let value: boolean | number | bigint;
+        if (type === "boolean") {
+          value = text === "true";
+        } else if (type === "float") {
+          value = Number.parseFloat(text);
+        } else {
+          value = Number.parseInt(text);
+          if (value > Number.MAX_SAFE_INTEGER) {
+            value = BigInt(text);
+          }
         }
         result.push({
-          ...base,
+          src,
+          file,
+          length,
+          start: tokenStart,
+          line,
+          col: tokenCol,
           type: "literal",
           value,
         });
         break;
       }
-      case "string": {
-        const value = longest.match[2];
-        if (typeof value !== "string") {
-          throw new Error("internal error: string match group is not a string");
+      case "operator": {
+        if (text === "{") {
+          braceDepth++;
+        } else if (text === "}") {
+          braceDepth--;
         }
         result.push({
-          ...base,
-          type: "literal",
-          value,
+          src,
+          file,
+          length,
+          start: tokenStart,
+          line,
+          col: tokenCol,
+          type,
+          value: text,
         });
         break;
       }
       case "comment":
-      case "identifier":
-      case "operator": {
+      case "identifier": {
         result.push({
-          ...base,
-          type: longest.type,
-          value: longest.match[0],
+          src,
+          file,
+          length,
+          start: tokenStart,
+          line,
+          col: tokenCol,
+          type,
+          value: text,
         });
         break;
       }
       default:
-        impossible(longest.type, "Invalid token type");
+        impossible(type, "Invalid token type");
     }
   }
-  return result;
+  return { tokens: result, end: { start, line, col } };
+}
+
+/**
+ * Scans a quoted string starting at `position`, decoding escape sequences and
+ * tokenizing `${...}` interpolations. Strings without interpolations become
+ * plain literal tokens.
+ */
+function scanString(
+  src: string,
+  file: string | undefined,
+  position: SourcePosition,
+): { token: Token; end: SourcePosition } {
+  const quote = src[position.start];
+  const parts: TemplatePart[] = [];
+  let text = "";
+  let { start: i, line, col } = position;
+  i++;
+  col++;
+
+  while (true) {
+    const c = src[i];
+    if (c === undefined || c === "\r" || c === "\n") {
+      throw new UnexpectedTokenError({
+        message: "Unterminated string",
+        src,
+        file,
+        line: position.line,
+        col: position.col,
+      });
+    }
+    if (c === quote) {
+      i++;
+      col++;
+      break;
+    }
+    if (c === "\\") {
+      const escape = src[i + 1] ?? "";
+      const codePoint = /^u\{([0-9a-fA-F]{1,6})\}/.exec(
+        src.slice(i + 1, i + 10),
+      )?.[1];
+      let length = 2;
+      if (codePoint && Number.parseInt(codePoint, 16) <= 0x10ffff) {
+        text += String.fromCodePoint(Number.parseInt(codePoint, 16));
+        length = `\\u{${codePoint}}`.length;
+      } else if (escape in escapeSequences) {
+        text += escapeSequences[escape];
+      } else {
+        throw new UnexpectedTokenError({
+          message: `Invalid escape sequence \\${escape}`,
+          src,
+          file,
+          line,
+          col,
+          length,
+        });
+      }
+      i += length;
+      col += length;
+      continue;
+    }
+    if (c === "$" && src[i + 1] === "{") {
+      const interpolation = tokenizeFrom(
+        src,
+        file,
+        { start: i + 2, line, col: col + 2 },
+        true,
+      );
+      if (src[interpolation.end.start] !== "}") {
+        throw new UnexpectedTokenError({
+          message: "Unterminated string interpolation",
+          src,
+          file,
+          line,
+          col,
+          length: 2,
+        });
+      }
+      parts.push(text, interpolation.tokens);
+      text = "";
+      ({ start: i, line, col } = interpolation.end);
+      i++;
+      col++;
+      continue;
+    }
+    const plain = matchAt(plainStringText, src, i) ?? c;
+    text += plain;
+    i += plain.length;
+    col += plain.length;
+  }
+
+  const end = { start: i, line, col };
+  const length = i - position.start;
+  if (parts.length === 0) {
+    return {
+      token: {
+        src,
+        file,
+        start: position.start,
+        length,
+        line: position.line,
+        col: position.col,
+        type: "literal",
+        value: text,
+      },
+      end,
+    };
+  }
+  parts.push(text);
+  return {
+    token: {
+      src,
+      file,
+      start: position.start,
+      length,
+      line: position.line,
+      col: position.col,
+      type: "template",
+      value: parts,
+    },
+    end,
+  };
 }
 
-type NodeLocation = {
+export type NodeLocation = {
   src: string;
+  file?: string;
   start: number;
   length: number;
   line0: number;
@@ -246,9 +889,20 @@ type NodeLocation = {
   col1: number;
 };
 
+function sourceParams(loc: NodeLocation): ErrorWithSourceParams {
+  return {
+    src: loc.src,
+    file: loc.file,
+    line: loc.line0,
+    col: loc.col0,
+    length: loc.length,
+  };
+}
+
 function nodeLocationFromToken(token: BaseToken): NodeLocation {
   return {
     src: token.src,
+    file: token.file,
     start: token.start,
     length: token.length,
     line0: token.line,
@@ -258,6 +912,21 @@ function nodeLocationFromToken(token: BaseToken): NodeLocation {
   };
 }
 
+/** An empty location just past `token`, for errors at the end of input. */
+function locationAfter(token: BaseToken): NodeLocation {
+  const col = token.col + token.length;
+  return {
+    src: token.src,
+    file: token.file,
+    start: token.start + token.length,
+    length: 1,
+    line0: token.line,
+    col0: col,
+    line1: token.line,
+    col1: col,
+  };
+}
+
 function mergeNodeLocations(...locations: Array<NodeLocation>): NodeLocation {
   if (!locations[0]) {
     throw new Error(
@@ -269,6 +938,7 @@ function mergeNodeLocations(...locations: Array<NodeLocation>): NodeLocation {
       if (loc === null) return merged;
       return {
         src: merged.src,
+        file: merged.file,
         start: Math.min(merged.start, loc.start),
         length:
           Math.max(merged.start + merged.length, loc.start + loc.length) -
@@ -285,119 +955,357 @@ function mergeNodeLocations(...locations: Array<NodeLocation>): NodeLocation {
   );
 }
 
-type BaseNode = {
+export type BaseNode = {
   type?: unknown;
   loc: NodeLocation;
 };
 
-type CommentNode = BaseNode & { type: "comment"; value: string };
-type LiteralNode = BaseNode & {
+export type CommentNode = BaseNode & { type: "comment"; value: string };
+export type LiteralNode = BaseNode & {
   type: "literal";
   value: boolean | string | number | bigint;
 };
-type IdentifierNode = BaseNode & { type: "identifier"; name: string };
-type OperatorNode = BaseNode & { type: "operator"; name: string };
-type AssignmentNode = BaseNode & {
+export type TemplateNode = BaseNode & {
+  type: "template";
+  parts: Array<string | ExpressionNode>;
+};
+export type IdentifierNode = BaseNode & { type: "identifier"; name: string };
+export type OperatorNode = BaseNode & { type: "operator"; name: string };
+export type AssignmentNode = BaseNode & {
   type: "assignment";
-  name: IdentifierNode;
+  target: IdentifierNode | MemberNode | IndexNode;
   value: ASTNode;
 };
-type CallNode = BaseNode & {
+export type CallNode = BaseNode & {
   type: "call";
-  name: IdentifierNode | OperatorNode;
+  callee: ExpressionNode;
   args: ASTNode[];
 };
-type FunctionNode = BaseNode & {
+export type FunctionNode = BaseNode & {
   type: "function";
-  args: IdentifierNode[];
+  args: ParamNode[];
   body: ASTNode;
+  /** The name it was assigned to, for stack traces. */
+  name?: string;
+};
+/** A lambda parameter, with its type if annotated: `(x: number) => ...`. */
+export type ParamNode = IdentifierNode & { annotation?: TypeNode };
+/** `number`, `string`, or a type variable like `A` */
+export type NamedTypeNode = BaseNode & { type: "namedType"; name: string };
+/** `[number]` */
+export type ListTypeNode = BaseNode & { type: "listType"; item: TypeNode };
+/** `{ x: number, y: number }` */
+export type RecordTypeNode = BaseNode & {
+  type: "recordType";
+  fields: Array<{ key: IdentifierNode; value: TypeNode }>;
 };
-type StatementListNode = BaseNode & {
+/** `(number, string) => boolean` */
+export type FunctionTypeNode = BaseNode & {
+  type: "functionType";
+  params: TypeNode[];
+  result: TypeNode;
+};
+export type TypeNode =
+  NamedTypeNode | ListTypeNode | RecordTypeNode | FunctionTypeNode;
+export type StatementListNode = BaseNode & {
   type: "statementList";
   statements: ASTNode[];
 };
-type BlockNode = BaseNode & { type: "block"; body: StatementListNode };
-type ListNode = BaseNode & { type: "list"; items: ExpressionNode[] };
-type TermNode = CallNode | LiteralNode | IdentifierNode | BlockNode | ListNode;
-type ExpressionNode = CommentNode | AssignmentNode | FunctionNode | TermNode;
-type ASTNode = StatementListNode | ExpressionNode;
-
-type ParseState = { tokens: Token[]; i: number };
-
-class ParseError extends ErrorWithSource {
-  constructor({ message, token }: { message: string; token: Token }) {
-    super({
-      message: message ?? "Parse error",
-      line: token.line,
-      col: token.col,
-      src: token.src,
-      length: token.length,
+export type UnaryNode = BaseNode & {
+  type: "unary";
+  operator: OperatorNode;
+  operand: ExpressionNode;
+};
+export type LogicalNode = BaseNode & {
+  type: "logical";
+  operator: OperatorNode;
+  left: ExpressionNode;
+  right: ExpressionNode;
+};
+export type BlockNode = BaseNode & { type: "block"; body: StatementListNode };
+export type ListNode = BaseNode & { type: "list"; items: ExpressionNode[] };
+export type RecordFieldNode = BaseNode & {
+  type: "recordField";
+  key: IdentifierNode;
+  value: ExpressionNode;
+};
+export type RecordNode = BaseNode & {
+  type: "record";
+  fields: RecordFieldNode[];
+};
+export type MemberNode = BaseNode & {
+  type: "member";
+  object: ExpressionNode;
+  property: IdentifierNode;
+};
+export type IndexNode = BaseNode & {
+  type: "index";
+  object: ExpressionNode;
+  index: ExpressionNode;
+};
+export type TermNode =
+  | CallNode
+  | LiteralNode
+  | TemplateNode
+  | IdentifierNode
+  | BlockNode
+  | ListNode
+  | RecordNode
+  | MemberNode
+  | IndexNode;
+export type ExpressionNode =
+  | CommentNode
+  | AssignmentNode
+  | FunctionNode
+  | UnaryNode
+  | LogicalNode
+  | TermNode;
+export type IfNode = BaseNode & {
+  type: "if";
+  condition: ExpressionNode;
+  then: BlockNode;
+  else?: BlockNode | IfNode;
+};
+export type WhileNode = BaseNode & {
+  type: "while";
+  condition: ExpressionNode;
+  body: BlockNode;
+};
+export type ForNode = BaseNode & {
+  type: "for";
+  variable: IdentifierNode;
+  iterable: ExpressionNode;
+  body: BlockNode;
+};
+export type BreakNode = BaseNode & { type: "break" };
+export type ContinueNode = BaseNode & { type: "continue" };
+export type ReturnNode = BaseNode & {
+  type: "return";
+  value?: ExpressionNode;
+};
+export type ImportSpecifierNode = BaseNode & {
+  type: "importSpecifier";
+  imported: IdentifierNode;
+  local: IdentifierNode;
+};
+export type ImportNode = BaseNode & {
+  type: "import";
+  /** `import { a, b as c } from ...` */
+  specifiers: ImportSpecifierNode[];
+  /** `import * as ns from ...` */
+  namespace?: IdentifierNode;
+  source: LiteralNode;
+};
+export type ExportNode = BaseNode & {
+  type: "export";
+  declaration: AssignmentNode & { target: IdentifierNode };
+};
+export type ModuleNode = ImportNode | ExportNode;
+export type ControlFlowNode =
+  IfNode | WhileNode | ForNode | BreakNode | ContinueNode | ReturnNode;
+export type ASTNode =
+  StatementListNode | ModuleNode | ControlFlowNode | ExpressionNode;
+
+/**
+ * Words that start a statement and so can't be used as identifiers. `if` is
+ * not among them because the `if(cond, then, else)` builtin predates `if`
+ * statements and is still callable.
+ */
+export const keywords = new Set([
+  "import",
+  "export",
+  "else",
+  "while",
+  "for",
+  "in",
+  "break",
+  "continue",
+  "return",
+]);
+
+type ParseContext = { inFunction: boolean; inLoop: boolean; topLevel: boolean };
+
+/** An error found without running the program, and the source it covers. */
+export type Diagnostic = { message: string; loc: NodeLocation };
+
+type ParseState = {
+  tokens: Token[];
+  i: number;
+  /** For each opening bracket, the index of the token that closes it. */
+  closers: Map<number, number>;
+  context: ParseContext;
+  trace?: (message: string) => void;
+  diagnostics: Diagnostic[];
+};
+
+export class ParseError extends ErrorWithSource {
+  token: Token;
+  loc: NodeLocation;
+  /** Whether the input ended where `token` was expected to be followed. */
+  atEnd: boolean;
+
+  constructor({
+    message,
+    token,
+    atEnd = false,
+  }: {
+    message: string;
+    token: Token;
+    atEnd?: boolean;
+  }) {
+    const loc = atEnd ? locationAfter(token) : nodeLocationFromToken(token);
+    super({ message: message ?? "Parse error", ...sourceParams(loc) });
+    this.token = token;
+    this.loc = loc;
+    this.atEnd = atEnd;
+  }
+}
+
+/** Thrown by `parse` with every syntax error it found in the input. */
+export class ParseErrors extends ErrorWithSource {
+  constructor(public diagnostics: Diagnostic[]) {
+    const [first] = diagnostics;
+    if (!first) {
+      throw new Error("internal error: ParseErrors needs a diagnostic");
+    }
+    super({ message: first.message, ...sourceParams(first.loc) });
+    this.message = formatDiagnostics(diagnostics);
+  }
+}
+
+/** Each diagnostic's message over the source it points at, with carets. */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  return diagnostics
+    .map(({ message, loc }) =>
+      formatSourceError({ message, ...sourceParams(loc) }),
+    )
+    .join("\n");
+}
+
+/**
+ * A statement that parsed fine but can't appear where it was written, like
+ * `break` outside of a loop.
+ */
+export class MisplacedStatementError extends ErrorWithSource {
+  loc: NodeLocation;
+
+  constructor(message: string, node: BaseNode) {
+    super({ message, ...sourceParams(node.loc) });
+    this.loc = node.loc;
+  }
+}
+
+function describeToken(token: Token): string {
+  return `'${token.src.slice(token.start, token.start + token.length)}'`;
+}
+
+/**
+ * An error saying `what` was expected at the current token, or at the end of
+ * input if there are no tokens left.
+ */
+function errorHere(state: ParseState, what: string): ParseError {
+  const token = state.tokens[state.i];
+  if (!token) {
+    return new ParseError({
+      message: `Expected ${what} before end of input`,
+      token: state.tokens.at(-1)!,
+      atEnd: true,
     });
   }
+  return new ParseError({
+    message: `Expected ${what} but got ${describeToken(token)}`,
+    token,
+  });
 }
 
-let txnDepth = 0;
-function txn<S extends object, T>(
-  debugName: string,
-  state: S,
-  fn: (state: S) => T,
-): T {
+let traceDepth = 0;
+/** Calls `fn`, logging `debugName` to the trace indented by nesting depth. */
+function traced<T>(debugName: string, state: ParseState, fn: () => T): T {
+  if (!state.trace) {
+    return fn();
+  }
+  state.trace(`${"  ".repeat(traceDepth)}${debugName}`);
+  ++traceDepth;
   try {
-    debug(`${"  ".repeat(txnDepth)}${debugName}`);
-    ++txnDepth;
-    const clonedState = Object.assign({}, state);
-    const result = fn(clonedState);
-    Object.assign(state, clonedState);
-    return result;
+    return fn();
   } finally {
-    --txnDepth;
+    --traceDepth;
   }
 }
 
-function parse({ tokens }: { tokens: ParseState["tokens"] }): ASTNode {
-  const state = { tokens, i: 0 };
-  const result = parseStatementList(state);
-  if (state.i < tokens.length) {
-    throw new ParseError({
-      message: "Unexpected token",
-      token: tokens[state.i]!,
-    });
+/**
+ * Parses a token list into a statement list. `trace`, if given, receives a
+ * line for every construct parsed, indented by nesting depth. Throws
+ * `ParseErrors` listing every syntax error if there are any.
+ */
+export function parse(options: {
+  tokens: ParseState["tokens"];
+  trace?: ParseState["trace"];
+}): ASTNode {
+  const { ast, diagnostics } = parseWithDiagnostics(options);
+  if (diagnostics.length > 0) {
+    throw new ParseErrors(diagnostics);
   }
-  return result;
+  return ast;
 }
 
-function parseOneOf<
-  TResult,
-  TParsers extends Array<(state: ParseState) => TResult>,
->(state: ParseState, ...parsers: TParsers): TResult {
-  return txn("parseOneOf", state, (state) => {
-    const token = state.tokens[state.i];
-    if (!token) {
-      throw new ParseError({
-        message: "Expected token before end of input",
-        token: state.tokens[state.i - 1]!,
-      });
+/**
+ * Like `parse`, but returns the syntax errors instead of throwing. After an
+ * error the parser skips to the next `;` or closing `}` and carries on, so the
+ * AST covers every statement that did parse.
+ *
+ * The parser decides what to parse from the next token alone, apart from
+ * lambdas, which it recognizes by the `=>` after their closing parenthesis.
+ * Every token is looked at a bounded number of times, so parsing takes time
+ * linear in the input.
+ */
+export function parseWithDiagnostics({
+  tokens,
+  trace,
+}: {
+  tokens: ParseState["tokens"];
+  trace?: ParseState["trace"];
+}): { ast: StatementListNode; diagnostics: Diagnostic[] } {
+  const state: ParseState = {
+    tokens,
+    i: 0,
+    closers: matchBrackets(tokens),
+    context: { inFunction: false, inLoop: false, topLevel: true },
+    trace,
+    diagnostics: [],
+  };
+  const ast = parseStatementList(state);
+  return { ast, diagnostics: state.diagnostics };
+}
+
+const closingBrackets: { [open: string]: string } = {
+  "(": ")",
+  "[": "]",
+  "{": "}",
+};
+
+/** Pairs up brackets in one pass. Unbalanced ones are left out. */
+function matchBrackets(tokens: Token[]): Map<number, number> {
+  const closers = new Map<number, number>();
+  const open: number[] = [];
+  tokens.forEach((token, i) => {
+    if (token.type !== "operator") {
+      return;
     }
-    for (const parse of parsers) {
-      try {
-        const result = parse(state);
-        debug(`[parseOneOf] MATCHED ${parse.name}`);
-        return result;
-      } catch (e) {
-        if (e instanceof ParseError) {
-          continue;
-        }
-        throw e;
+    if (token.value in closingBrackets) {
+      open.push(i);
+    } else if (Object.values(closingBrackets).includes(token.value)) {
+      const opener = open.at(-1);
+      if (
+        opener !== undefined &&
+        closingBrackets[tokens[opener]!.value as string] === token.value
+      ) {
+        closers.set(opener, i);
+        open.pop();
       }
     }
-    const expectedTypes = parsers.map((parser) =>
-      parser.name.replace(/^parse/, ""),
-    );
-    throw new ParseError({
-      message: `Expected one of ${expectedTypes.join(", ")}`,
-      token,
-    });
   });
+  return closers;
 }
 
 type TokenMatcher<TToken> = {
@@ -410,6 +1318,18 @@ type TokenMatcherByType<TType extends Token["type"]> = TokenMatcher<
   Extract<Token, { type: TType }>
 >;
 
+const tokenDescriptions: { [type in Token["type"]]: string } = {
+  comment: "a comment",
+  identifier: "a name",
+  literal: "a value",
+  template: "a string",
+  operator: "an operator",
+  arrow: "'=>'",
+  assign: "'='",
+  semicolon: "';'",
+  bracket: "a bracket",
+};
+
 function takeToken<
   TType extends Token["type"],
   TResult = Extract<Token, { type: TType }>,
@@ -423,17 +1343,12 @@ function takeToken<
   match?: TokenMatcherByType<TType>;
 }): TResult {
   const token = state.tokens[state.i];
-  if (!token) {
-    throw new ParseError({
-      message: "Expected token before end of input",
-      token: state.tokens[state.i - 1]!,
-    });
-  }
-  if (token.type !== type) {
-    throw new ParseError({
-      message: `Expected token with type ${type} but got ${token.type}`,
-      token,
-    });
+  const wanted =
+    typeof match?.value === "string"
+      ? `'${match.value}'`
+      : tokenDescriptions[type];
+  if (!token || token.type !== type) {
+    throw errorHere(state, wanted);
   }
   if (match) {
     for (const key in match) {
@@ -444,16 +1359,10 @@ function takeToken<
 
       if (matcher instanceof RegExp) {
         if (typeof tokenVal !== "string" || !matcher.test(tokenVal)) {
-          throw new ParseError({
-            message: `Expected token with ${key} matching ${matcher} but got ${tokenVal}`,
-            token,
-          });
+          throw errorHere(state, wanted);
         }
       } else if (tokenVal !== matcher) {
-        throw new ParseError({
-          message: `Expected token with ${key}=${matcher} but got ${tokenVal}`,
-          token,
-        });
+        throw errorHere(state, wanted);
       }
     }
   }
@@ -461,12 +1370,9 @@ function takeToken<
   return token as TResult;
 }
 
-function parseComment(
-  state: ParseState,
-  match?: TokenMatcherByType<"comment">,
-): CommentNode {
-  return txn(`parseComment ${JSON.stringify(match)}`, state, (state) => {
-    const token = takeToken({ state, type: "comment", match });
+function parseComment(state: ParseState): CommentNode {
+  return traced("parseComment", state, () => {
+    const token = takeToken({ state, type: "comment" });
     return {
       type: "comment",
       value: token.value,
@@ -475,12 +1381,15 @@ function parseComment(
   });
 }
 
-function parseIdentifier(
-  state: ParseState,
-  match?: TokenMatcherByType<"identifier">,
-): IdentifierNode {
-  return txn(`parseIdentifier ${JSON.stringify(match)}`, state, (state) => {
-    const token = takeToken({ state, type: "identifier", match });
+function parseIdentifier(state: ParseState): IdentifierNode {
+  return traced("parseIdentifier", state, () => {
+    const token = takeToken({ state, type: "identifier" });
+    if (keywords.has(token.value)) {
+      throw new ParseError({
+        message: `Unexpected keyword ${token.value}`,
+        token,
+      });
+    }
     return {
       type: "identifier",
       name: token.value,
@@ -493,7 +1402,7 @@ function parseOperator(
   state: ParseState,
   match?: TokenMatcherByType<"operator">,
 ): OperatorNode {
-  return txn(`parseOperator ${JSON.stringify(match)}`, state, (state) => {
+  return traced(`parseOperator ${JSON.stringify(match)}`, state, () => {
     const token = takeToken({ state, type: "operator", match });
     return {
       type: "operator",
@@ -503,12 +1412,9 @@ function parseOperator(
   });
 }
 
-function parseLiteral(
-  state: ParseState,
-  match?: TokenMatcherByType<"literal">,
-): LiteralNode {
-  return txn(`parseLiteral ${JSON.stringify(match)}`, state, (state) => {
-    const token = takeToken({ state, type: "literal", match });
+function parseLiteral(state: ParseState): LiteralNode {
+  return traced("parseLiteral", state, () => {
+    const token = takeToken({ state, type: "literal" });
     return {
       type: "literal",
       value: token.value,
@@ -517,67 +1423,181 @@ function parseLiteral(
   });
 }
 
-function parseAssignment(state: ParseState): AssignmentNode {
-  return txn("parseAssignment", state, (state) => {
-    const name = parseIdentifier(state);
+function parseTemplate(state: ParseState): TemplateNode {
+  return traced("parseTemplate", state, () => {
+    const token = takeToken({ state, type: "template" });
+    const parts = token.value.map((part) => {
+      if (typeof part === "string") {
+        return part;
+      }
+      if (part.length === 0) {
+        throw new ParseError({ message: "Empty interpolation", token });
+      }
+      const inner = {
+        ...state,
+        tokens: part,
+        i: 0,
+        closers: matchBrackets(part),
+      };
+      const expression = parseExpression(inner);
+      if (inner.i < part.length) {
+        throw new ParseError({
+          message: "Unexpected token",
+          token: part[inner.i]!,
+        });
+      }
+      return expression;
+    });
+    return { type: "template", parts, loc: nodeLocationFromToken(token) };
+  });
+}
+
+/** Names an anonymous lambda after what it is assigned to. */
+function nameFunction<T extends ASTNode>(node: T, name: string | undefined): T {
+  if (node.type !== "function" || node.name || name === undefined) {
+    return node;
+  }
+  return { ...node, name };
+}
+
+/**
+ * Parses a comment, a lambda, or a binary expression that may turn out to be
+ * the target of an assignment.
+ */
+function parseExpression(state: ParseState): ExpressionNode {
+  return traced("parseExpression", state, () => {
+    const token = state.tokens[state.i];
+    if (token?.type === "comment") {
+      return parseComment(state);
+    }
+    if (isLambdaStart(state)) {
+      return parseLambda(state);
+    }
+    const expression = parseBinary(state);
+    if (!peekOperator(state, "=")) {
+      return expression;
+    }
+    return parseAssignment(state, expression);
+  });
+}
+
+function parseAssignment(
+  state: ParseState,
+  target: ExpressionNode,
+): AssignmentNode {
+  return traced("parseAssignment", state, () => {
+    if (
+      target.type !== "identifier" &&
+      target.type !== "member" &&
+      target.type !== "index"
+    ) {
+      throw new ParseError({
+        message: "Expected a name, field or index to assign to",
+        token: state.tokens[state.i - 1]!,
+      });
+    }
     const assign = parseOperator(state, { value: "=" });
     const value = parseExpression(state);
     return {
       type: "assignment",
-      name,
-      value,
-      loc: mergeNodeLocations(name.loc, assign.loc, value.loc),
+      target,
+      value: nameFunction(
+        value,
+        target.type === "identifier"
+          ? target.name
+          : target.type === "member"
+            ? target.property.name
+            : undefined,
+      ),
+      loc: mergeNodeLocations(target.loc, assign.loc, value.loc),
     };
   });
 }
 
-function parseCall(state: ParseState): CallNode {
-  return txn("parseCall", state, (state) => {
-    const name = parseIdentifier(state);
-
-    parseOperator(state, { value: "(" });
-
-    const args: ASTNode[] = [];
-    while (state.i < state.tokens.length) {
-      try {
-        args.push(parseExpression(state));
-        parseOperator(state, { value: "," });
-      } catch {
-        debug("[parseCall] no comma after argument");
-        break;
-      }
+/**
+ * Parses `item, item, ...` up to the bracket that closes `open`. A trailing
+ * comma is allowed.
+ */
+function parseDelimited<T>(
+  state: ParseState,
+  open: OperatorNode,
+  what: string,
+  parseItem: (state: ParseState) => T,
+): { items: T[]; close: OperatorNode } {
+  const closer = closingBrackets[open.name]!;
+  const items: T[] = [];
+  while (state.i < state.tokens.length && !peekOperator(state, closer)) {
+    items.push(parseItem(state));
+    if (!peekOperator(state, ",")) {
+      break;
     }
+    parseOperator(state, { value: "," });
+  }
+  return { items, close: parseClosing(state, closer, open, what) };
+}
 
-    const closingParen = parseOperator(state, { value: ")" });
+/**
+ * Takes the bracket that closes `open`, or fails saying what was left open.
+ */
+function parseClosing(
+  state: ParseState,
+  value: string,
+  open: OperatorNode,
+  what: string,
+): OperatorNode {
+  if (!peekOperator(state, value)) {
+    throw errorHere(
+      state,
+      `'${value}' to close ${what} started at line ${open.loc.line0}`,
+    );
+  }
+  return parseOperator(state, { value });
+}
 
+function parseCall(state: ParseState, callee: ExpressionNode): CallNode {
+  return traced("parseCall", state, () => {
+    const openParen = parseOperator(state, { value: "(" });
+    const { items: args, close } = parseDelimited(
+      state,
+      openParen,
+      "call",
+      parseExpression,
+    );
     return {
       type: "call",
-      name,
+      callee,
       args,
-      loc: mergeNodeLocations(name.loc, closingParen.loc),
+      loc: mergeNodeLocations(callee.loc, close.loc),
     };
   });
 }
 
+/** Whether the current token opens a parameter list, ie `(...)` then `=>`. */
+function isLambdaStart(state: ParseState): boolean {
+  if (!peekOperator(state, "(")) {
+    return false;
+  }
+  const close = state.closers.get(state.i);
+  const arrow = close === undefined ? undefined : state.tokens[close + 1];
+  return arrow?.type === "operator" && arrow.value === "=>";
+}
+
 function parseLambda(state: ParseState): FunctionNode {
-  return txn("parseLambda", state, (state) => {
+  return traced("parseLambda", state, () => {
     const openParen = parseOperator(state, { value: "(" });
-
-    const args: IdentifierNode[] = [];
-    while (state.i < state.tokens.length) {
-      try {
-        args.push(parseIdentifier(state));
-        parseOperator(state, { value: "," });
-      } catch {
-        debug("[parseLambda] no comma after parameter");
-        break;
-      }
-    }
-
-    parseOperator(state, { value: ")" });
+    const { items: args } = parseDelimited(
+      state,
+      openParen,
+      "parameter list",
+      parseParam,
+    );
     parseOperator(state, { value: "=>" });
 
-    const body = parseExpression(state);
+    const body = withContext(
+      state,
+      { inFunction: true, inLoop: false, topLevel: false },
+      parseExpression,
+    );
 
     return {
       type: "function",
@@ -588,11 +1608,101 @@ function parseLambda(state: ParseState): FunctionNode {
   });
 }
 
+function parseParam(state: ParseState): ParamNode {
+  return traced("parseParam", state, () => {
+    const name = parseIdentifier(state);
+    if (!peekOperator(state, ":")) {
+      return name;
+    }
+    parseOperator(state, { value: ":" });
+    return { ...name, annotation: parseTypeNode(state) };
+  });
+}
+
+function parseTypeNode(state: ParseState): TypeNode {
+  return traced("parseTypeNode", state, () => {
+    if (peekOperator(state, "[")) {
+      const openBracket = parseOperator(state, { value: "[" });
+      const item = parseTypeNode(state);
+      const close = parseClosing(state, "]", openBracket, "list type");
+      return {
+        type: "listType",
+        item,
+        loc: mergeNodeLocations(openBracket.loc, close.loc),
+      };
+    }
+    if (peekOperator(state, "{")) {
+      const openBrace = parseOperator(state, { value: "{" });
+      const { items: fields, close } = parseDelimited(
+        state,
+        openBrace,
+        "record type",
+        (state) => {
+          const key = parseFieldName(state);
+          parseOperator(state, { value: ":" });
+          return { key, value: parseTypeNode(state) };
+        },
+      );
+      return {
+        type: "recordType",
+        fields,
+        loc: mergeNodeLocations(openBrace.loc, close.loc),
+      };
+    }
+    if (peekOperator(state, "(")) {
+      const openParen = parseOperator(state, { value: "(" });
+      const { items: params } = parseDelimited(
+        state,
+        openParen,
+        "parameter types",
+        parseTypeNode,
+      );
+      parseOperator(state, { value: "=>" });
+      const result = parseTypeNode(state);
+      return {
+        type: "functionType",
+        params,
+        result,
+        loc: mergeNodeLocations(openParen.loc, result.loc),
+      };
+    }
+    if (state.tokens[state.i]?.type !== "identifier") {
+      throw errorHere(state, "a type");
+    }
+    const { name, loc } = parseIdentifier(state);
+    return { type: "namedType", name, loc };
+  });
+}
+
+/**
+ * Parses a type written the way parameter annotations are, like
+ * `([number], (number) => string) => [string]`. Throws a `ParseError`.
+ */
+export function parseType(src: string): TypeNode {
+  const tokens = tokenize(src);
+  const state: ParseState = {
+    tokens,
+    i: 0,
+    closers: matchBrackets(tokens),
+    context: { inFunction: false, inLoop: false, topLevel: false },
+    diagnostics: [],
+  };
+  const type = parseTypeNode(state);
+  if (state.i < tokens.length) {
+    throw errorHere(state, "end of type");
+  }
+  return type;
+}
+
 function parseBlock(state: ParseState): BlockNode {
-  return txn("parseBlock", state, (state) => {
+  return traced("parseBlock", state, () => {
     const openBrace = parseOperator(state, { value: "{" });
-    const body = parseStatementList(state);
-    const closeBrace = parseOperator(state, { value: "}" });
+    const body = withContext(
+      state,
+      { ...state.context, topLevel: false },
+      parseStatementList,
+    );
+    const closeBrace = parseClosing(state, "}", openBrace, "block");
     return {
       type: "block",
       body,
@@ -602,198 +1712,2196 @@ function parseBlock(state: ParseState): BlockNode {
 }
 
 function parseList(state: ParseState): ListNode {
-  return txn("parseList", state, (state) => {
+  return traced("parseList", state, () => {
     const openBracket = parseOperator(state, { value: "[" });
-    const items: ExpressionNode[] = [];
-    while (state.i < state.tokens.length) {
-      try {
-        items.push(parseExpression(state));
-        parseOperator(state, { value: "," });
-      } catch {
-        debug("[parseList] no comma after element");
-        break;
-      }
-    }
-    const closeBracket = parseOperator(state, { value: "]" });
+    const { items, close } = parseDelimited(
+      state,
+      openBracket,
+      "list",
+      parseExpression,
+    );
     return {
       type: "list",
       items,
-      loc: mergeNodeLocations(openBracket.loc, closeBracket.loc),
+      loc: mergeNodeLocations(openBracket.loc, close.loc),
+    };
+  });
+}
+
+/** A field name after `.` or before `:`; keywords are allowed here. */
+function parseFieldName(state: ParseState): IdentifierNode {
+  return traced("parseFieldName", state, () => {
+    const token = state.tokens[state.i];
+    if (token?.type === "literal" && typeof token.value === "string") {
+      state.i += 1;
+      return {
+        type: "identifier",
+        name: token.value,
+        loc: nodeLocationFromToken(token),
+      };
+    }
+    const identifier = takeToken({ state, type: "identifier" });
+    return {
+      type: "identifier",
+      name: identifier.value,
+      loc: nodeLocationFromToken(identifier),
+    };
+  });
+}
+
+function parseRecordField(state: ParseState): RecordFieldNode {
+  return traced("parseRecordField", state, () => {
+    const key = parseFieldName(state);
+    parseOperator(state, { value: ":" });
+    const value = parseExpression(state);
+    return {
+      type: "recordField",
+      key,
+      value: nameFunction(value, key.name),
+      loc: mergeNodeLocations(key.loc, value.loc),
     };
   });
 }
 
-function parseTerm(state: ParseState): TermNode {
-  return txn("parseTerm", state, (state) => {
-    return parseOneOf(
+/** Whether the `{` at the current token starts a record rather than a block. */
+function isRecordStart(state: ParseState): boolean {
+  const key = state.tokens[state.i + 1];
+  const colon = state.tokens[state.i + 2];
+  if (key?.type === "operator") {
+    return key.value === "}";
+  }
+  return (
+    (key?.type === "identifier" ||
+      (key?.type === "literal" && typeof key.value === "string")) &&
+    colon?.type === "operator" &&
+    colon.value === ":"
+  );
+}
+
+function parseRecord(state: ParseState): RecordNode {
+  return traced("parseRecord", state, () => {
+    const openBrace = parseOperator(state, { value: "{" });
+    const { items: fields, close } = parseDelimited(
       state,
-      parseCall,
-      parseBlock,
-      parseList,
-      parseLiteral,
-      parseIdentifier,
+      openBrace,
+      "record",
+      parseRecordField,
     );
+    return {
+      type: "record",
+      fields,
+      loc: mergeNodeLocations(openBrace.loc, close.loc),
+    };
   });
 }
 
-function parseBinop(state: ParseState): CallNode {
-  return txn("parseBinop", state, (state) => {
-    const left = parseTerm(state);
-    const name = parseOperator(state, { value: /^(?:==|<=|>=|[+\-*/<>])/ });
-    const right = parseExpression(state);
+function parseMember(state: ParseState, object: ExpressionNode): MemberNode {
+  return traced("parseMember", state, () => {
+    parseOperator(state, { value: "." });
+    const property = parseFieldName(state);
+    return {
+      type: "member",
+      object,
+      property,
+      loc: mergeNodeLocations(object.loc, property.loc),
+    };
+  });
+}
 
+function parseIndex(state: ParseState, object: ExpressionNode): IndexNode {
+  return traced("parseIndex", state, () => {
+    const openBracket = parseOperator(state, { value: "[" });
+    const index = parseExpression(state);
+    const closeBracket = parseClosing(state, "]", openBracket, "index");
     return {
-      type: "call",
-      name: {
-        type: "identifier",
-        name: name.name,
-        loc: name.loc,
-      },
-      args: [left, right],
-      loc: mergeNodeLocations(left.loc, right.loc),
+      type: "index",
+      object,
+      index,
+      loc: mergeNodeLocations(object.loc, closeBracket.loc),
     };
   });
 }
 
 function parseParenthesized(state: ParseState): ExpressionNode {
-  return txn("parseParenthesized", state, (state) => {
+  return traced("parseParenthesized", state, () => {
     const openParen = parseOperator(state, { value: "(" });
     const expr = parseExpression(state);
-    const closeParen = parseOperator(state, { value: ")" });
+    parseClosing(state, ")", openParen, "parenthesized expression");
     return expr;
   });
 }
 
-function parseExpression(state: ParseState): ExpressionNode {
-  return txn("parseExpression", state, (state) => {
-    return parseOneOf(
-      state,
-      parseComment,
-      parseAssignment,
-      parseLambda,
-      parseBinop,
-      parseTerm,
-      parseParenthesized,
-    );
-  });
+function parsePrimary(state: ParseState): ExpressionNode {
+  const token = state.tokens[state.i];
+  switch (token?.type) {
+    case "literal":
+      return parseLiteral(state);
+    case "template":
+      return parseTemplate(state);
+    case "identifier":
+      return parseIdentifier(state);
+    case "operator":
+      if (token.value === "{") {
+        return isRecordStart(state) ? parseRecord(state) : parseBlock(state);
+      }
+      if (token.value === "[") {
+        return parseList(state);
+      }
+      if (token.value === "(") {
+        return parseParenthesized(state);
+      }
+  }
+  throw errorHere(state, "an expression");
 }
 
-function parseStatementList(state: ParseState): StatementListNode {
-  return txn("parseStatementList", state, (state) => {
-    const statements: ASTNode[] = [];
-    while (state.i < state.tokens.length) {
-      try {
-        statements.push(parseExpression(state));
-        parseOperator(state, { value: ";" });
-      } catch (e) {
-        if (e instanceof ParseError) {
-          break;
-        }
-        throw e;
+function parseTerm(state: ParseState): ExpressionNode {
+  return traced("parseTerm", state, () => {
+    let term = parsePrimary(state);
+    while (true) {
+      if (peekOperator(state, "(")) {
+        term = parseCall(state, term);
+      } else if (peekOperator(state, ".")) {
+        term = parseMember(state, term);
+      } else if (peekOperator(state, "[")) {
+        term = parseIndex(state, term);
+      } else {
+        return term;
       }
     }
+  });
+}
 
-    let loc = {
-      src: "<none>",
-      start: 0,
-      length: 0,
-      col0: 0,
-      col1: 0,
-      line0: 0,
-      line1: 0,
-    };
-    if (statements[0]) {
-      loc = mergeNodeLocations(statements[0].loc, statements.at(-1)!.loc);
+function parseUnary(state: ParseState): ExpressionNode {
+  return traced("parseUnary", state, () => {
+    if (!peekOperator(state, "-") && !peekOperator(state, "!")) {
+      return parseTerm(state);
     }
-
+    const operator = parseOperator(state);
+    const operand = parseUnary(state);
     return {
-      type: "statementList",
-      statements,
-      loc,
+      type: "unary",
+      operator,
+      operand,
+      loc: mergeNodeLocations(operator.loc, operand.loc),
     };
   });
 }
 
-type EvalState = { globals: { [k: string]: unknown } };
+/**
+ * Binding power of each binary operator; higher binds tighter. All binary
+ * operators are left-associative.
+ */
+export const binaryPrecedence = new Map([
+  ["||", 1],
+  ["&&", 2],
+  ["==", 3],
+  ["!=", 3],
+  ["<", 4],
+  ["<=", 4],
+  [">", 4],
+  [">=", 4],
+  ["+", 5],
+  ["-", 5],
+  ["*", 6],
+  ["/", 6],
+]);
+
+function parseBinary(state: ParseState, minPrecedence = 1): ExpressionNode {
+  return traced(`parseBinary ${minPrecedence}`, state, () => {
+    let left = parseUnary(state);
+    while (true) {
+      const token = state.tokens[state.i];
+      const precedence =
+        token?.type === "operator" ? binaryPrecedence.get(token.value) : null;
+      if (!precedence || precedence < minPrecedence) {
+        return left;
+      }
 
-class EvalError extends ErrorWithSource {
-  constructor(message: string, node: ASTNode) {
-    super({
-      message,
-      col: node.loc.col0,
-      line: node.loc.line0,
-      length: node.loc.length,
-      src: node.loc.src,
-    });
+      const operator = parseOperator(state);
+      const right = parseBinary(state, precedence + 1);
+      const loc = mergeNodeLocations(left.loc, right.loc);
+
+      if (operator.name === "&&" || operator.name === "||") {
+        left = { type: "logical", operator, left, right, loc };
+      } else {
+        left = {
+          type: "call",
+          callee: {
+            type: "identifier",
+            name: operator.name,
+            loc: operator.loc,
+          },
+          args: [left, right],
+          loc,
+        };
+      }
+    }
+  });
+}
+
+function withContext<T>(
+  state: ParseState,
+  context: ParseContext,
+  fn: (state: ParseState) => T,
+): T {
+  const outer = state.context;
+  state.context = context;
+  try {
+    return fn(state);
+  } finally {
+    state.context = outer;
   }
 }
 
-function evalInclude(node: CallNode, state: EvalState): unknown {
-  const pathNode = node.args[0];
-  if (!pathNode) {
-    throw new EvalError("include() requires a path argument", node);
+function peekOperator(state: ParseState, value: string): boolean {
+  const token = state.tokens[state.i];
+  return token?.type === "operator" && token.value === value;
+}
+
+function peekKeyword(state: ParseState, value: string): boolean {
+  const token = state.tokens[state.i];
+  return token?.type === "identifier" && token.value === value;
+}
+
+function parseKeyword(state: ParseState, value: string): IdentifierNode {
+  return traced(`parseKeyword ${value}`, state, () => {
+    const token = takeToken({ state, type: "identifier", match: { value } });
+    return {
+      type: "identifier",
+      name: token.value,
+      loc: nodeLocationFromToken(token),
+    };
+  });
+}
+
+/**
+ * Whether an `if` at the current token starts a statement rather than a call
+ * to the `if(cond, then, else)` builtin. A parenthesized condition is told
+ * apart from the builtin's arguments by having no comma at its top level.
+ */
+function isIfStatementStart(state: ParseState): boolean {
+  const next = state.tokens[state.i + 1];
+  if (!next) {
+    return false;
   }
-  const path = evalNode(pathNode, state);
-  if (typeof path !== "string") {
-    throw new EvalError("include() path argument must be a string", pathNode);
+  if (next.type !== "operator") {
+    return next.type !== "comment";
   }
-  const src = fs.readFileSync(path, "utf-8");
-  try {
-    return evalNode(parse({ tokens: tokenize(src) }), state);
-  } catch (e) {
-    throw new EvalError(`Error in included file ${path}:\n${e}`, node);
+  if (next.value === "!" || next.value === "-") {
+    return true;
+  }
+  if (next.value !== "(") {
+    return false;
+  }
+  const close = state.closers.get(state.i + 1);
+  if (close === undefined) {
+    return false;
+  }
+  for (let i = state.i + 2; i < close; i++) {
+    const token = state.tokens[i]!;
+    if (token.type === "operator" && token.value === ",") {
+      return false;
+    }
+    // skip nested brackets, whose commas don't count
+    i = state.closers.get(i) ?? i;
   }
+  return true;
 }
 
-function evalNode(node: ASTNode, state: EvalState = { globals: {} }): unknown {
-  switch (node.type) {
-    case "comment":
-      return undefined;
-    case "assignment":
-      return (state.globals[node.name.name] = evalNode(node.value, state));
-    case "block":
-      return evalNode(node.body, state);
-    case "statementList":
-      return node.statements.map((s) => evalNode(s, state)).at(-1);
-    case "call":
-      const name = node.name.name;
-      if (name === "include") {
-        return evalInclude(node, state);
-      }
-      const fn = state.globals[name];
-      if (typeof fn !== "function") {
-        throw new EvalError(`Cannot call non-function ${node.name.name}`, node);
-      }
-      return fn(...node.args.map((arg) => evalNode(arg, state)));
-    case "function":
-      return function lambda(...args: unknown[]) {
-        return txn("function", state.globals, (globals) => {
-          args.forEach((arg, i) => {
-            const param = node.args[i];
-            if (param) {
-              globals[param.name] = arg;
-            }
-          });
-          return evalNode(node.body, { globals });
-        });
-      };
-    case "list":
-      return node.items.map((item) => evalNode(item, state));
-    case "identifier":
-      return state.globals[node.name];
-    case "literal":
-      return node.value;
-    default:
-      impossible(node, "Invalid node type");
-  }
+function parseIf(state: ParseState): IfNode {
+  return traced("parseIf", state, () => {
+    const keyword = parseKeyword(state, "if");
+    const condition = parseBinary(state);
+    const then = parseBlock(state);
+    let else_: IfNode["else"];
+    if (peekKeyword(state, "else")) {
+      parseKeyword(state, "else");
+      else_ = peekKeyword(state, "if") ? parseIf(state) : parseBlock(state);
+    }
+    return {
+      type: "if",
+      condition,
+      then,
+      else: else_,
+      loc: mergeNodeLocations(keyword.loc, (else_ ?? then).loc),
+    };
+  });
 }
 
-function formatToken(token: BaseToken): string {
-  return `{${token.line}:${token.col} ${token.type} ${token.value}}`;
+function parseWhile(state: ParseState): WhileNode {
+  return traced("parseWhile", state, () => {
+    const keyword = parseKeyword(state, "while");
+    const condition = parseBinary(state);
+    const body = withContext(
+      state,
+      { ...state.context, inLoop: true },
+      parseBlock,
+    );
+    return {
+      type: "while",
+      condition,
+      body,
+      loc: mergeNodeLocations(keyword.loc, body.loc),
+    };
+  });
 }
 
-function impossible(x: never, message: string): never {
-  throw new Error(`Impossible state: ${message}`);
+function parseFor(state: ParseState): ForNode {
+  return traced("parseFor", state, () => {
+    const keyword = parseKeyword(state, "for");
+    const variable = parseIdentifier(state);
+    parseKeyword(state, "in");
+    const iterable = parseBinary(state);
+    const body = withContext(
+      state,
+      { ...state.context, inLoop: true },
+      parseBlock,
+    );
+    return {
+      type: "for",
+      variable,
+      iterable,
+      body,
+      loc: mergeNodeLocations(keyword.loc, body.loc),
+    };
+  });
+}
+
+function parseBreak(state: ParseState): BreakNode {
+  return traced("parseBreak", state, () => {
+    const keyword = parseKeyword(state, "break");
+    if (!state.context.inLoop) {
+      throw new MisplacedStatementError("break outside of a loop", keyword);
+    }
+    return { type: "break", loc: keyword.loc };
+  });
 }
 
-main();
+function parseContinue(state: ParseState): ContinueNode {
+  return traced("parseContinue", state, () => {
+    const keyword = parseKeyword(state, "continue");
+    if (!state.context.inLoop) {
+      throw new MisplacedStatementError("continue outside of a loop", keyword);
+    }
+    return { type: "continue", loc: keyword.loc };
+  });
+}
+
+function parseReturn(state: ParseState): ReturnNode {
+  return traced("parseReturn", state, () => {
+    const keyword = parseKeyword(state, "return");
+    if (!state.context.inFunction) {
+      throw new MisplacedStatementError(
+        "return outside of a function",
+        keyword,
+      );
+    }
+    if (
+      state.i >= state.tokens.length ||
+      peekOperator(state, ";") ||
+      peekOperator(state, "}")
+    ) {
+      return { type: "return", loc: keyword.loc };
+    }
+    const value = parseExpression(state);
+    return {
+      type: "return",
+      value,
+      loc: mergeNodeLocations(keyword.loc, value.loc),
+    };
+  });
+}
+
+function parseImportSpecifier(state: ParseState): ImportSpecifierNode {
+  return traced("parseImportSpecifier", state, () => {
+    const imported = parseIdentifier(state);
+    let local = imported;
+    if (peekKeyword(state, "as")) {
+      parseKeyword(state, "as");
+      local = parseIdentifier(state);
+    }
+    return {
+      type: "importSpecifier",
+      imported,
+      local,
+      loc: mergeNodeLocations(imported.loc, local.loc),
+    };
+  });
+}
+
+function parseImport(state: ParseState): ImportNode {
+  return traced("parseImport", state, () => {
+    const keyword = parseKeyword(state, "import");
+    if (!state.context.topLevel) {
+      throw new MisplacedStatementError(
+        "import is only allowed at the top level of a file",
+        keyword,
+      );
+    }
+    let specifiers: ImportSpecifierNode[] = [];
+    let namespace: IdentifierNode | undefined;
+    if (peekOperator(state, "*")) {
+      parseOperator(state, { value: "*" });
+      parseKeyword(state, "as");
+      namespace = parseIdentifier(state);
+    } else {
+      const openBrace = parseOperator(state, { value: "{" });
+      specifiers = parseDelimited(
+        state,
+        openBrace,
+        "import list",
+        parseImportSpecifier,
+      ).items;
+    }
+    parseKeyword(state, "from");
+    const source = parseLiteral(state);
+    if (typeof source.value !== "string") {
+      throw new ParseError({
+        message: "Expected a module path string",
+        token: state.tokens[state.i - 1]!,
+      });
+    }
+    return {
+      type: "import",
+      specifiers,
+      namespace,
+      source,
+      loc: mergeNodeLocations(keyword.loc, source.loc),
+    };
+  });
+}
+
+function parseExport(state: ParseState): ExportNode {
+  return traced("parseExport", state, () => {
+    const keyword = parseKeyword(state, "export");
+    if (!state.context.topLevel) {
+      throw new MisplacedStatementError(
+        "export is only allowed at the top level of a file",
+        keyword,
+      );
+    }
+    const declaration = parseExpression(state);
+    if (
+      declaration.type !== "assignment" ||
+      declaration.target.type !== "identifier"
+    ) {
+      throw new MisplacedStatementError(
+        "export needs an assignment to a name",
+        declaration,
+      );
+    }
+    return {
+      type: "export",
+      declaration: { ...declaration, target: declaration.target },
+      loc: mergeNodeLocations(keyword.loc, declaration.loc),
+    };
+  });
+}
+
+function parseStatement(state: ParseState): ASTNode {
+  return traced("parseStatement", state, () => {
+    const token = state.tokens[state.i];
+    if (token?.type === "identifier") {
+      switch (token.value) {
+        case "import":
+          return parseImport(state);
+        case "export":
+          return parseExport(state);
+        case "if":
+          if (isIfStatementStart(state)) {
+            return parseIf(state);
+          }
+          break;
+        case "while":
+          return parseWhile(state);
+        case "for":
+          return parseFor(state);
+        case "break":
+          return parseBreak(state);
+        case "continue":
+          return parseContinue(state);
+        case "return":
+          return parseReturn(state);
+      }
+    }
+    return parseExpression(state);
+  });
+}
+
+function parseStatementList(state: ParseState): StatementListNode {
+  return traced("parseStatementList", state, () => {
+    const statements: ASTNode[] = [];
+    while (state.i < state.tokens.length) {
+      if (peekOperator(state, "}")) {
+        if (!state.context.topLevel) {
+          break;
+        }
+        reportError(state, errorHere(state, "a statement"));
+        state.i++;
+        continue;
+      }
+
+      const start = state.i;
+      let statement: ASTNode;
+      try {
+        statement = parseStatement(state);
+      } catch (e) {
+        // Running out of stack becomes an error at the token reached, built
+        // by the innermost statement list with room left, as in `withFrame`.
+        const error = isHostStackOverflow(e)
+          ? new ParseError({
+              message: "Too deeply nested to parse",
+              token: state.tokens[Math.min(state.i, state.tokens.length - 1)]!,
+            })
+          : e;
+        if (!(
+          error instanceof ParseError ||
+          error instanceof MisplacedStatementError
+        )) {
+          throw error;
+        }
+        reportError(state, error);
+        state.i = start;
+        skipStatement(state);
+        continue;
+      }
+      statements.push(statement);
+
+      // statements ending in a block or a comment don't need a semicolon,
+      // and neither does the last one in a block or file
+      const needsSemicolon = !(
+        statement.type === "if" ||
+        statement.type === "while" ||
+        statement.type === "for" ||
+        statement.type === "comment"
+      );
+      if (peekOperator(state, ";")) {
+        parseOperator(state, { value: ";" });
+      } else if (
+        needsSemicolon &&
+        state.i < state.tokens.length &&
+        !peekOperator(state, "}")
+      ) {
+        reportError(state, errorHere(state, "';' after statement"));
+        // on a new line it's probably just the `;` that's missing
+        if (state.tokens[state.i]!.line <= statement.loc.line1) {
+          skipStatement(state);
+        }
+      }
+    }
+
+    let loc: NodeLocation = {
+      src: "<none>",
+      start: 0,
+      length: 0,
+      col0: 0,
+      col1: 0,
+      line0: 0,
+      line1: 0,
+    };
+    if (statements[0]) {
+      loc = mergeNodeLocations(statements[0].loc, statements.at(-1)!.loc);
+    }
+
+    return {
+      type: "statementList",
+      statements,
+      loc,
+    };
+  });
+}
+
+/** Adds a diagnostic unless one was already reported at the same place. */
+function reportError(
+  state: ParseState,
+  error: ParseError | MisplacedStatementError,
+) {
+  const duplicate = state.diagnostics.some(
+    (d) => d.loc.start === error.loc.start,
+  );
+  if (!duplicate) {
+    state.diagnostics.push({ message: error.args.message!, loc: error.loc });
+  }
+}
+
+/**
+ * Skips to just past the next `;`, or to the next `}` that closes the current
+ * block, so parsing can resume after a bad statement. Only braces count:
+ * a `;` can't be inside parentheses or brackets unless it is in a block, so
+ * an unclosed `(` or `[` doesn't swallow the rest of the file.
+ */
+function skipStatement(state: ParseState) {
+  let depth = 0;
+  for (; state.i < state.tokens.length; state.i++) {
+    const token = state.tokens[state.i]!;
+    if (token.type !== "operator") {
+      continue;
+    }
+    if (depth === 0 && token.value === ";") {
+      state.i++;
+      return;
+    }
+    if (token.value === "{") {
+      depth++;
+    } else if (token.value === "}") {
+      if (depth === 0) {
+        return;
+      }
+      depth--;
+    }
+  }
+}
+
+/**
+ * A scope in the environment chain. Function calls and blocks each get their
+ * own, parented to the scope they were created in, so lambdas capture the
+ * environment they were defined in.
+ *
+ * Assigning to a name updates the nearest scope that already binds it, and
+ * otherwise creates a new binding in the innermost scope. Parameters are
+ * always bound in the function's own scope.
+ */
+export class Environment {
+  vars = new Map<string, unknown>();
+
+  /**
+   * @param frozen Assignments never write into a frozen scope; they make a
+   * new binding that shadows it instead. Used for the builtins, which every
+   * module shares.
+   */
+  constructor(
+    public parent?: Environment,
+    public frozen = false,
+  ) {}
+
+  lookup(name: string): Environment | undefined {
+    let env: Environment | undefined = this;
+    while (env && !env.vars.has(name)) {
+      env = env.parent;
+    }
+    return env;
+  }
+
+  has(name: string): boolean {
+    return this.lookup(name) !== undefined;
+  }
+
+  get(name: string): unknown {
+    return this.lookup(name)?.vars.get(name);
+  }
+
+  define(name: string, value: unknown): unknown {
+    this.vars.set(name, value);
+    return value;
+  }
+
+  assign(name: string, value: unknown): unknown {
+    const env = this.lookup(name);
+    return (env && !env.frozen ? env : this).define(name, value);
+  }
+}
+
+type ModuleRegistry = {
+  builtins: Environment;
+  /** Exports of each loaded module by absolute path. */
+  cache: Map<string, { [k: string]: unknown }>;
+  /** Paths of the modules currently being evaluated, outermost first. */
+  loading: string[];
+};
+
+export type EvalState = {
+  env: Environment;
+  io: EvalIO;
+  /** Path of the file being evaluated, if it came from one. */
+  file?: string;
+  modules: ModuleRegistry;
+  /** Calls in progress, outermost first. Shared by every scope of a run. */
+  stack: StackFrame[];
+  /** Whether included and imported files are compiled too. */
+  compile: boolean;
+  maxDepth: number;
+  debug?: DebugHook;
+  /** The sandbox, if any, and what is left of it. Shared like `stack`. */
+  limits?: Limits;
+};
+
+type Limits = Sandbox & {
+  allowRead: string[];
+  fuelLeft: number;
+  /** Nodes evaluated, for checking the clock every so often. */
+  steps: number;
+  deadline: number;
+};
+
+/**
+ * A call that was in progress. Calls made by tinyfn code have the location of
+ * the call; lambdas called back by builtins like `each` don't.
+ */
+export type StackFrame = {
+  name: string;
+  fn?: unknown;
+  callSite?: NodeLocation;
+};
+
+export class EvalError extends ErrorWithSource {
+  /** The calls in progress when the error was thrown, outermost first. */
+  trace?: StackFrame[];
+
+  constructor(message: string, node: BaseNode) {
+    super({ message, ...sourceParams(node.loc) });
+  }
+
+  setTrace(trace: StackFrame[]) {
+    this.trace = trace;
+    if (trace.length > 0) {
+      this.message = formatTraceback(this.args, trace);
+    }
+  }
+}
+
+/** Thrown when a sandboxed program goes over one of its limits. */
+export class LimitError extends EvalError {
+  constructor(
+    public limit: Limit,
+    message: string,
+    node: BaseNode,
+  ) {
+    super(message, node);
+  }
+}
+
+const maxTracebackEntries = 20;
+
+/**
+ * Renders an error with one excerpt per active call, innermost first. Each
+ * entry names the function the location is in.
+ */
+function formatTraceback(
+  error: ErrorWithSourceParams,
+  trace: StackFrame[],
+): string {
+  const entries: Array<{ name: string; at?: ErrorWithSourceParams }> = [
+    { name: trace.at(-1)!.name, at: error },
+  ];
+  for (let i = trace.length - 1; i >= 0; i--) {
+    const callSite = trace[i]!.callSite;
+    entries.push({
+      name: trace[i - 1]?.name ?? "<top level>",
+      at: callSite && sourceParams(callSite),
+    });
+  }
+
+  const lines = [error.message ?? "Error:"];
+  entries.forEach(({ name, at }, i) => {
+    const half = maxTracebackEntries / 2;
+    if (entries.length > maxTracebackEntries && i >= half) {
+      if (i === half) {
+        lines.push(`  ... ${entries.length - 2 * half} more calls`);
+      }
+      if (i < entries.length - half) {
+        return;
+      }
+    }
+    if (!at) {
+      lines.push(`  in ${name}`);
+      return;
+    }
+    const file = at.file ? displayPath(at.file) : "<input>";
+    lines.push(
+      `  in ${name} at ${file}:${at.line}`,
+      ...formatExcerpt(at, `    line ${at.line}: `),
+    );
+  });
+  return lines.join("\n");
+}
+
+// Thrown to unwind the evaluator for `break`, `continue` and `return`. The
+// parser guarantees each one has a loop or function to land in.
+class BreakSignal {}
+class ContinueSignal {}
+class ReturnSignal {
+  constructor(public value: unknown) {}
+}
+
+/**
+ * What a call in tail position evaluates to: the call still to be made. The
+ * lambda whose body produced it makes the call once its own body is done, so
+ * tail recursion runs in constant stack.
+ */
+class TailCall {
+  constructor(
+    public fn: Function,
+    public args: unknown[],
+    public node: CallNode,
+  ) {}
+}
+
+function resolvePath(state: EvalState, specifier: string): string {
+  const dir = state.file ? path.dirname(state.file) : process.cwd();
+  return path.resolve(dir, specifier);
+}
+
+function readSource(state: EvalState, file: string, node: BaseNode): string {
+  const { limits } = state;
+  let target = file;
+  if (limits) {
+    // Symlinks are followed before the check, so a link in an allowed
+    // directory can't point outside it. The resolved path is what gets read.
+    const real = realPath(file);
+    if (
+      real === undefined ||
+      !limits.allowRead.some((dir) => {
+        const relative = path.relative(dir, real);
+        return !relative.startsWith("..") && !path.isAbsolute(relative);
+      })
+    ) {
+      throw new LimitError(
+        "file",
+        `Cannot read ${file}: the sandbox doesn't allow reading it`,
+        node,
+      );
+    }
+    target = real;
+  }
+  try {
+    return state.io.readFile(target);
+  } catch (e) {
+    throw new EvalError(
+      `Cannot read ${file}: ${e instanceof Error ? e.message : e}`,
+      node,
+    );
+  }
+}
+
+/** `file` with every symlink resolved, or undefined if it doesn't exist. */
+function realPath(file: string): string | undefined {
+  try {
+    return fs.realpathSync(path.resolve(file));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Evaluates the source of another file in the current scope, as if it were
+ * pasted in place of the call. Prefer `import`, which keeps files apart.
+ */
+function evalInclude(node: CallNode, state: EvalState): unknown {
+  const pathNode = node.args[0];
+  if (!pathNode) {
+    throw new EvalError("include() requires a path argument", node);
+  }
+  return includeFile(node, evalNode(pathNode, state), state);
+}
+
+function includeFile(
+  node: CallNode,
+  specifier: unknown,
+  state: EvalState,
+): unknown {
+  if (typeof specifier !== "string") {
+    throw new EvalError(
+      "include() path argument must be a string",
+      node.args[0]!,
+    );
+  }
+  const file = resolvePath(state, specifier);
+  const ast = parse({ tokens: tokenize(readSource(state, file, node), file) });
+  return withFrame(state, { name: "include", callSite: node.loc }, () =>
+    evaluate(ast, { ...state, file }),
+  );
+}
+
+/**
+ * Loads the module an import refers to, evaluating it in a fresh scope on
+ * top of the builtins the first time, and returns its exports as a record.
+ */
+function loadModule(
+  node: ImportNode,
+  state: EvalState,
+): { [k: string]: unknown } {
+  const { cache, loading, builtins } = state.modules;
+  const file = resolvePath(state, node.source.value as string);
+
+  const cached = cache.get(file);
+  if (cached) {
+    return cached;
+  }
+  if (loading.includes(file)) {
+    const cycle = [...loading.slice(loading.indexOf(file)), file];
+    throw new EvalError(
+      `Import cycle: ${cycle.map(displayPath).join(" -> ")}`,
+      node.source,
+    );
+  }
+
+  const ast = parse({
+    tokens: tokenize(readSource(state, file, node.source), file),
+  });
+  const env = new Environment(builtins);
+  loading.push(file);
+  try {
+    withFrame(state, { name: "import", callSite: node.loc }, () =>
+      evaluate(ast, { ...state, env, file }),
+    );
+  } finally {
+    loading.pop();
+  }
+
+  const exports = {};
+  if (ast.type === "statementList") {
+    for (const statement of ast.statements) {
+      if (statement.type === "export") {
+        const name = statement.declaration.target.name;
+        setField(exports, name, env.get(name), statement);
+      }
+    }
+  }
+  cache.set(file, exports);
+  return exports;
+}
+
+function evalImport(node: ImportNode, state: EvalState): undefined {
+  const exports = loadModule(node, state);
+  if (node.namespace) {
+    state.env.define(node.namespace.name, exports);
+  }
+  for (const { imported, local } of node.specifiers) {
+    if (!Object.prototype.hasOwnProperty.call(exports, imported.name)) {
+      throw new EvalError(
+        `${node.source.value} has no export named ${imported.name}`,
+        imported,
+      );
+    }
+    state.env.define(local.name, exports[imported.name]);
+  }
+  return undefined;
+}
+
+/**
+ * Runs `fn` with `frame` on top of the stack. Errors thrown inside get the
+ * stack as it was at the innermost frame they passed through. The JS engine
+ * running out of stack becomes a stack overflow `EvalError` at the innermost
+ * call that has room left to build one.
+ */
+function withFrame<A extends unknown[], T>(
+  state: EvalState,
+  frame: StackFrame,
+  fn: (...args: A) => T,
+  ...args: A
+): T {
+  state.stack.push(frame);
+  try {
+    return fn(...args);
+  } catch (e) {
+    let error = e;
+    if (isHostStackOverflow(e) && frame.callSite) {
+      error = new LimitError(
+        "depth",
+        `Stack overflow in call to ${frame.name}: ran out of stack`,
+        { loc: frame.callSite },
+      );
+    }
+    if (error instanceof EvalError && !error.trace) {
+      error.setTrace(state.stack.slice());
+    }
+    throw error;
+  } finally {
+    state.stack.pop();
+  }
+}
+
+/** Whether `e` is the JS engine running out of stack. */
+function isHostStackOverflow(e: unknown): boolean {
+  return (
+    e instanceof RangeError && e.message === "Maximum call stack size exceeded"
+  );
+}
+
+/**
+ * Fails with a stack overflow error at `node` if calling `name` would make
+ * more than `maxDepth` calls in progress.
+ */
+function checkDepth(state: EvalState, name: string, node: BaseNode) {
+  if (state.stack.length >= state.maxDepth) {
+    const error = new LimitError(
+      "depth",
+      `Stack overflow in call to ${name}: more than ${state.maxDepth} nested calls`,
+      node,
+    );
+    error.setTrace(state.stack.slice());
+    throw error;
+  }
+}
+
+function callFunction(
+  fn: Function,
+  args: unknown[],
+  node: CallNode,
+  state: EvalState,
+): unknown {
+  const name = fn.name || "<anonymous>";
+  if (isLambda(fn)) {
+    checkDepth(state, name, node);
+  }
+  try {
+    const result = withFrame(
+      state,
+      { name, fn, callSite: node.loc },
+      fn as (...args: unknown[]) => unknown,
+      ...args,
+    );
+    // Lambdas check what they build themselves; builtins are checked here.
+    return state.limits && !isLambda(fn)
+      ? checkSize(state.limits, result, node)
+      : result;
+  } catch (e) {
+    // Host functions throw plain JS errors; report them where tinyfn called in.
+    let error: EvalError | undefined;
+    if (e instanceof BuiltinLimitError) {
+      error = new LimitError(e.limit, e.message, node);
+    } else if (e instanceof BuiltinError) {
+      error = new EvalError(e.message, node);
+    } else if (
+      e instanceof Error &&
+      !(e instanceof ErrorWithSource) &&
+      // left for an outer frame with more stack to spare to report
+      !isHostStackOverflow(e)
+    ) {
+      error = new EvalError(`${name}() threw ${e.name}: ${e.message}`, node);
+    }
+    if (error) {
+      error.setTrace(state.stack.slice());
+      throw error;
+    }
+    throw e;
+  }
+}
+
+function makeLambda(node: FunctionNode, state: EvalState): Function {
+  return wrapLambda(node, state, (args) => {
+    const env = new Environment(state.env);
+    node.args.forEach((param, i) => env.define(param.name, args[i]));
+    const inner = { ...state, env };
+    if (state.debug && node.body.type !== "block") {
+      state.debug(node.body, inner);
+    }
+    return evalNode(node.body, inner, true);
+  });
+}
+
+/** Where a lambda keeps its body, so tail calls can run it in place. */
+const lambdaBody = Symbol("lambdaBody");
+
+type Lambda = Function & { [lambdaBody]: (args: unknown[]) => unknown };
+
+function isLambda(fn: unknown): fn is Lambda {
+  return typeof fn === "function" && lambdaBody in fn;
+}
+
+/**
+ * Turns `call` into the JS function a tinyfn lambda evaluates to: named for
+ * traces, catching `return`, and on the stack even when a builtin calls it.
+ */
+function wrapLambda(
+  node: FunctionNode,
+  state: EvalState,
+  call: (args: unknown[]) => unknown,
+): Function {
+  const name = node.name ?? "<lambda>";
+  // A computed key names the function without a defineProperty per lambda.
+  const { [name]: fn } = {
+    [name]: (...args: unknown[]): unknown => {
+      // Calls from tinyfn code already pushed a frame; ones from builtins
+      // didn't.
+      if (state.stack.at(-1)?.fn === lambda) {
+        return runLambda(lambda, args, state);
+      }
+      checkDepth(state, name, node);
+      return withFrame(
+        state,
+        { name, fn: lambda },
+        runLambda,
+        lambda,
+        args,
+        state,
+      );
+    },
+  };
+  // Not enumerable, so printing a lambda shows just its name.
+  const lambda: Lambda = Object.defineProperty(fn!, lambdaBody, {
+    value: call,
+  }) as Function as Lambda;
+  return lambda;
+}
+
+/**
+ * Runs a lambda's body, then the calls it makes in tail position. Each one
+ * that is itself a lambda takes over the caller's stack frame and runs in
+ * this loop rather than on top of it, and so does the branch a tail call to
+ * `if` picks.
+ */
+function runLambda(lambda: Lambda, args: unknown[], state: EvalState): unknown {
+  // One loop rather than helper calls: every JS frame here is paid again for
+  // each level of tinyfn recursion.
+  let body = lambda[lambdaBody];
+  while (true) {
+    let result;
+    try {
+      result = body(args);
+    } catch (e) {
+      if (!(e instanceof ReturnSignal)) {
+        throw e;
+      }
+      result = e.value;
+    }
+    if (!(result instanceof TailCall)) {
+      return result;
+    }
+
+    let { fn } = result;
+    args = result.args;
+    if (fn === ifBuiltin) {
+      const branch = args[0] ? args[1] : args[2];
+      if (isLambda(branch)) {
+        fn = branch;
+        args = [];
+      }
+    }
+    if (!isLambda(fn)) {
+      return callFunction(fn, args, result.node, state);
+    }
+    const { stack } = state;
+    const { callSite } = stack.at(-1)!;
+    stack[stack.length - 1] = { name: fn.name, fn, callSite };
+    body = fn[lambdaBody];
+  }
+}
+
+export function evaluate(
+  ast: ASTNode,
+  state: EvalState = createEvalState(),
+): unknown {
+  const { limits } = state;
+  if (limits && state.stack.length === 0) {
+    limits.fuelLeft = limits.fuel ?? Infinity;
+    limits.steps = 0;
+    limits.deadline =
+      limits.timeout === undefined ? Infinity : Date.now() + limits.timeout;
+  }
+  return state.compile && !limits ? compile(ast)(state) : evalNode(ast, state);
+}
+
+/** How many nodes to evaluate between looks at the clock. */
+const clockInterval = 1024;
+
+/** Charges evaluating `node` to the sandbox's fuel and time. */
+function spend(limits: Limits, node: ASTNode) {
+  if (--limits.fuelLeft < 0) {
+    throw new LimitError(
+      "fuel",
+      `Out of fuel: evaluated more than ${limits.fuel} nodes`,
+      node,
+    );
+  }
+  if (++limits.steps % clockInterval === 0 && Date.now() > limits.deadline) {
+    throw new LimitError(
+      "timeout",
+      `Timed out: ran for longer than ${limits.timeout}ms`,
+      node,
+    );
+  }
+}
+
+/** Returns `value`, or throws if it is a list or string over the limits. */
+function checkSize(limits: Limits, value: unknown, node: BaseNode): unknown {
+  const { maxListLength, maxStringLength } = limits;
+  if (
+    typeof value === "string" &&
+    maxStringLength !== undefined &&
+    value.length > maxStringLength
+  ) {
+    throw new LimitError(
+      "string",
+      stringTooLong(value.length, maxStringLength),
+      node,
+    );
+  }
+  if (
+    Array.isArray(value) &&
+    maxListLength !== undefined &&
+    value.length > maxListLength
+  ) {
+    throw new LimitError(
+      "list",
+      listTooLong(value.length, maxListLength),
+      node,
+    );
+  }
+  return value;
+}
+
+/**
+ * @param tail Whether `node` is in tail position in a lambda body. Calls there
+ * evaluate to a `TailCall` for the lambda to make.
+ */
+function evalNode(node: ASTNode, state: EvalState, tail = false): unknown {
+  // Statement lists may be empty, with nowhere in the source to report an
+  // error at; what's in them pays.
+  if (state.limits && node.type !== "statementList") {
+    spend(state.limits, node);
+  }
+  switch (node.type) {
+    case "comment":
+      return undefined;
+    case "import":
+      return evalImport(node, state);
+    case "export":
+      return evalNode(node.declaration, state);
+    case "assignment":
+      return evalAssignment(node, state);
+    case "block":
+      return evalNode(
+        node.body,
+        { ...state, env: new Environment(state.env) },
+        tail,
+      );
+    case "statementList": {
+      const { statements } = node;
+      let result;
+      for (let i = 0; i < statements.length; i++) {
+        const statement = statements[i]!;
+        if (state.debug) {
+          state.debug(statement, state);
+        }
+        result = evalNode(
+          statement,
+          state,
+          tail && i === statements.length - 1,
+        );
+      }
+      return result;
+    }
+    case "call":
+      if (node.callee.type === "identifier" && node.callee.name === "include") {
+        return evalInclude(node, state);
+      }
+      const fn = evalNode(node.callee, state);
+      if (typeof fn !== "function") {
+        throw new EvalError(
+          `Cannot call ${sourceText(node.callee)}: it is ${describeValue(fn)}, not a function`,
+          node.callee,
+        );
+      }
+      const args = [];
+      for (let i = 0; i < node.args.length; i++) {
+        args.push(evalNode(node.args[i]!, state));
+      }
+      if (tail) {
+        return new TailCall(fn, args, node);
+      }
+      return callFunction(fn, args, node, state);
+    case "function":
+      return makeLambda(node, state);
+    case "if":
+      if (evalNode(node.condition, state)) {
+        return evalNode(node.then, state, tail);
+      }
+      return node.else ? evalNode(node.else, state, tail) : undefined;
+    case "while":
+      while (evalNode(node.condition, state)) {
+        if (runLoopBody(() => evalNode(node.body, state)) === "break") {
+          break;
+        }
+      }
+      return undefined;
+    case "for":
+      return evalFor(node, state);
+    case "break":
+      throw new BreakSignal();
+    case "continue":
+      throw new ContinueSignal();
+    case "return":
+      // The returned value is in tail position wherever the `return` is.
+      throw new ReturnSignal(
+        node.value ? evalNode(node.value, state, true) : undefined,
+      );
+    case "unary":
+      return applyUnary(node, evalNode(node.operand, state));
+    case "logical": {
+      const left = evalNode(node.left, state);
+      if (node.operator.name === "&&" ? !left : left) {
+        return left;
+      }
+      return evalNode(node.right, state, tail);
+    }
+    case "list": {
+      const list = node.items.map((item) => evalNode(item, state));
+      return state.limits ? checkSize(state.limits, list, node) : list;
+    }
+    case "record": {
+      const record = {};
+      node.fields.forEach((field) =>
+        setField(record, field.key.name, evalNode(field.value, state), field),
+      );
+      return record;
+    }
+    case "member":
+      return getField(
+        evalNode(node.object, state),
+        node.property.name,
+        node.property,
+      );
+    case "index":
+      return getIndex(
+        evalNode(node.object, state),
+        evalNode(node.index, state),
+        node.index,
+      );
+    case "identifier":
+      if (!state.env.has(node.name)) {
+        throw new EvalError(`Undefined variable ${node.name}`, node);
+      }
+      return state.env.get(node.name);
+    case "literal":
+      return node.value;
+    case "template": {
+      const text = node.parts
+        .map((part) =>
+          typeof part === "string"
+            ? part
+            : toDisplayString(evalNode(part, state)),
+        )
+        .join("");
+      return state.limits ? checkSize(state.limits, text, node) : text;
+    }
+    default:
+      impossible(node, "Invalid node type");
+  }
+}
+
+function evalAssignment(node: AssignmentNode, state: EvalState): unknown {
+  const { target } = node;
+  switch (target.type) {
+    case "identifier":
+      return state.env.assign(target.name, evalNode(node.value, state));
+    case "member": {
+      const object = evalNode(target.object, state);
+      const value = evalNode(node.value, state);
+      return setField(object, target.property.name, value, target.property);
+    }
+    case "index": {
+      const object = evalNode(target.object, state);
+      const index = evalNode(target.index, state);
+      const value = evalNode(node.value, state);
+      return setIndex(object, index, value, target.index);
+    }
+    default:
+      impossible(target, "Invalid assignment target");
+  }
+}
+
+function evalFor(node: ForNode, state: EvalState): undefined {
+  const iterable = checkIterable(evalNode(node.iterable, state), node);
+  for (const item of iterable) {
+    const env = new Environment(state.env);
+    env.define(node.variable.name, item);
+    if (runLoopBody(() => evalNode(node.body, { ...state, env })) === "break") {
+      break;
+    }
+  }
+  return undefined;
+}
+
+function applyUnary(node: UnaryNode, operand: unknown): unknown {
+  if (node.operator.name === "!") {
+    return !operand;
+  }
+  if (typeof operand !== "number" && typeof operand !== "bigint") {
+    throw new EvalError(
+      `Cannot negate ${describeValue(operand)}`,
+      node.operand,
+    );
+  }
+  return -operand;
+}
+
+function checkIterable(iterable: unknown, node: ForNode): unknown[] {
+  if (!Array.isArray(iterable)) {
+    throw new EvalError(
+      `Cannot iterate over non-list ${inspect(iterable)}`,
+      node.iterable,
+    );
+  }
+  return iterable;
+}
+
+function runLoopBody(body: () => unknown): "break" | undefined {
+  try {
+    body();
+  } catch (e) {
+    if (e instanceof BreakSignal) {
+      return "break";
+    }
+    if (!(e instanceof ContinueSignal)) {
+      throw e;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A node compiled to a closure. It runs in `env`, like `evalNode` does, and
+ * reads slotted names from `frame`; `state.env` is not kept up to date.
+ */
+type Compiled = (
+  state: EvalState,
+  env: Environment,
+  frame: Frame | undefined,
+) => unknown;
+
+/** The slots of one call, or of one iteration of a `for` loop. */
+type Frame = { slots: unknown[]; parent: Frame | undefined };
+
+/**
+ * The names a function or `for` loop binds, as the compiler sees them. They
+ * go in slots unless an `include` inside could look them up by name, in which
+ * case they stay in the environment.
+ */
+type CompileScope = {
+  names: string[];
+  slotted: boolean;
+  parent: CompileScope | undefined;
+};
+
+/**
+ * Compiles `ast` once into closures that behave exactly like `evalNode`:
+ * same results, same errors. Parameters and loop variables are resolved to
+ * frame slots at compile time. Names bound by assignment stay in environments,
+ * since whether an assignment updates an outer scope or makes a new binding
+ * is only known when it runs.
+ */
+export function compile(ast: ASTNode): (state: EvalState) => unknown {
+  const run = compileNode(ast, undefined);
+  return (state) => run(state, state.env, undefined);
+}
+
+/** Where `name` lives in the frames, if the innermost scope binding it is slotted. */
+function resolveSlot(
+  scope: CompileScope | undefined,
+  name: string,
+): { depth: number; index: number } | undefined {
+  let depth = 0;
+  for (; scope; scope = scope.parent) {
+    const index = scope.names.lastIndexOf(name);
+    if (index >= 0) {
+      return scope.slotted ? { depth, index } : undefined;
+    }
+    if (scope.slotted) {
+      depth++;
+    }
+  }
+  return undefined;
+}
+
+function frameAt(frame: Frame | undefined, depth: number): Frame {
+  for (let i = 0; i < depth; i++) {
+    frame = frame!.parent;
+  }
+  return frame!;
+}
+
+/** Compiles `node`; `tail` is as for `evalNode`. */
+function compileNode(
+  node: ASTNode,
+  scope: CompileScope | undefined,
+  tail = false,
+): Compiled {
+  switch (node.type) {
+    case "comment":
+      return () => undefined;
+    case "import":
+      return (state, env) => evalImport(node, { ...state, env });
+    case "export":
+      return compileNode(node.declaration, scope);
+    case "assignment": {
+      const { target } = node;
+      const value = compileNode(node.value, scope);
+      switch (target.type) {
+        case "identifier": {
+          const { name } = target;
+          const slot = resolveSlot(scope, name);
+          if (slot) {
+            const { depth, index } = slot;
+            return (state, env, frame) =>
+              (frameAt(frame, depth).slots[index] = value(state, env, frame));
+          }
+          return (state, env, frame) =>
+            env.assign(name, value(state, env, frame));
+        }
+        case "member": {
+          const object = compileNode(target.object, scope);
+          const key = target.property.name;
+          return (state, env, frame) =>
+            setField(
+              object(state, env, frame),
+              key,
+              value(state, env, frame),
+              target.property,
+            );
+        }
+        case "index": {
+          const object = compileNode(target.object, scope);
+          const index = compileNode(target.index, scope);
+          return (state, env, frame) =>
+            setIndex(
+              object(state, env, frame),
+              index(state, env, frame),
+              value(state, env, frame),
+              target.index,
+            );
+        }
+        default:
+          impossible(target, "Invalid assignment target");
+      }
+    }
+    case "block": {
+      const body = compileNode(node.body, scope, tail);
+      return (state, env, frame) => body(state, new Environment(env), frame);
+    }
+    case "statementList": {
+      const last = node.statements.length - 1;
+      const statements = node.statements.map((s, i) =>
+        compileNode(s, scope, tail && i === last),
+      );
+      return (state, env, frame) => {
+        let result;
+        for (const statement of statements) {
+          result = statement(state, env, frame);
+        }
+        return result;
+      };
+    }
+    case "call":
+      return compileCall(node, scope, tail);
+    case "function":
+      return compileLambda(node, scope);
+    case "if": {
+      const condition = compileNode(node.condition, scope);
+      const then = compileNode(node.then, scope, tail);
+      const else_ = node.else && compileNode(node.else, scope, tail);
+      return (state, env, frame) => {
+        if (condition(state, env, frame)) {
+          return then(state, env, frame);
+        }
+        return else_ ? else_(state, env, frame) : undefined;
+      };
+    }
+    case "while": {
+      const condition = compileNode(node.condition, scope);
+      const body = compileNode(node.body, scope);
+      return (state, env, frame) => {
+        while (condition(state, env, frame)) {
+          if (runLoopBody(() => body(state, env, frame)) === "break") {
+            break;
+          }
+        }
+        return undefined;
+      };
+    }
+    case "for":
+      return compileFor(node, scope);
+    case "break":
+      return () => {
+        throw new BreakSignal();
+      };
+    case "continue":
+      return () => {
+        throw new ContinueSignal();
+      };
+    case "return": {
+      const value = node.value && compileNode(node.value, scope, true);
+      return (state, env, frame) => {
+        throw new ReturnSignal(value ? value(state, env, frame) : undefined);
+      };
+    }
+    case "unary": {
+      const operand = compileNode(node.operand, scope);
+      return (state, env, frame) =>
+        applyUnary(node, operand(state, env, frame));
+    }
+    case "logical": {
+      const left = compileNode(node.left, scope);
+      const right = compileNode(node.right, scope, tail);
+      const and = node.operator.name === "&&";
+      return (state, env, frame) => {
+        const value = left(state, env, frame);
+        if (and ? !value : value) {
+          return value;
+        }
+        return right(state, env, frame);
+      };
+    }
+    case "list": {
+      const items = node.items.map((item) => compileNode(item, scope));
+      return (state, env, frame) =>
+        items.map((item) => item(state, env, frame));
+    }
+    case "record": {
+      const fields = node.fields.map((field) => ({
+        field,
+        value: compileNode(field.value, scope),
+      }));
+      return (state, env, frame) => {
+        const record = {};
+        for (const { field, value } of fields) {
+          setField(record, field.key.name, value(state, env, frame), field);
+        }
+        return record;
+      };
+    }
+    case "member": {
+      const object = compileNode(node.object, scope);
+      const key = node.property.name;
+      return (state, env, frame) =>
+        getField(object(state, env, frame), key, node.property);
+    }
+    case "index": {
+      const object = compileNode(node.object, scope);
+      const index = compileNode(node.index, scope);
+      return (state, env, frame) =>
+        getIndex(
+          object(state, env, frame),
+          index(state, env, frame),
+          node.index,
+        );
+    }
+    case "identifier": {
+      const { name } = node;
+      const slot = resolveSlot(scope, name);
+      if (slot) {
+        const { depth, index } = slot;
+        return depth === 0
+          ? (state, env, frame) => frame!.slots[index]
+          : (state, env, frame) => frameAt(frame, depth).slots[index];
+      }
+      return (state, env) => {
+        const owner = env.lookup(name);
+        if (!owner) {
+          throw new EvalError(`Undefined variable ${name}`, node);
+        }
+        return owner.vars.get(name);
+      };
+    }
+    case "literal": {
+      const { value } = node;
+      return () => value;
+    }
+    case "template": {
+      const parts = node.parts.map((part) =>
+        typeof part === "string" ? part : compileNode(part, scope),
+      );
+      return (state, env, frame) =>
+        parts
+          .map((part) =>
+            typeof part === "string"
+              ? part
+              : toDisplayString(part(state, env, frame)),
+          )
+          .join("");
+    }
+    default:
+      impossible(node, "Invalid node type");
+  }
+}
+
+function compileCall(
+  node: CallNode,
+  scope: CompileScope | undefined,
+  tail: boolean,
+): Compiled {
+  const args = node.args.map((arg) => compileNode(arg, scope));
+  if (node.callee.type === "identifier" && node.callee.name === "include") {
+    const pathArg = args[0];
+    if (!pathArg) {
+      return () => {
+        throw new EvalError("include() requires a path argument", node);
+      };
+    }
+    return (state, env, frame) =>
+      includeFile(node, pathArg(state, env, frame), { ...state, env });
+  }
+  const callee = compileNode(node.callee, scope);
+  return (state, env, frame) => {
+    const fn = callee(state, env, frame);
+    if (typeof fn !== "function") {
+      throw new EvalError(
+        `Cannot call ${sourceText(node.callee)}: it is ${describeValue(fn)}, not a function`,
+        node.callee,
+      );
+    }
+    const values = [];
+    for (let i = 0; i < args.length; i++) {
+      values.push(args[i]!(state, env, frame));
+    }
+    if (tail) {
+      return new TailCall(fn, values, node);
+    }
+    return callFunction(fn, values, node, state);
+  };
+}
+
+function compileLambda(
+  node: FunctionNode,
+  parent: CompileScope | undefined,
+): Compiled {
+  const names = node.args.map((param) => param.name);
+  const slotted = !containsInclude(node.body);
+  const body = compileNode(node.body, { names, slotted, parent }, true);
+  // With its parameters in slots, a function whose body is a block would
+  // only ever have an empty scope of its own, so it skips making one.
+  const ownEnv = !slotted || node.body.type !== "block";
+  return (state, env, frame) =>
+    wrapLambda(node, state, (args) => {
+      let callEnv = env;
+      if (ownEnv) {
+        callEnv = new Environment(env);
+        if (!slotted) {
+          names.forEach((name, i) => callEnv.define(name, args[i]));
+        }
+      }
+      return body(
+        state,
+        callEnv,
+        slotted ? { slots: args, parent: frame } : frame,
+      );
+    });
+}
+
+function compileFor(node: ForNode, scope: CompileScope | undefined): Compiled {
+  const iterable = compileNode(node.iterable, scope);
+  const { name } = node.variable;
+  const slotted = !containsInclude(node.body);
+  const body = compileNode(node.body, {
+    names: [name],
+    slotted,
+    parent: scope,
+  });
+  return (state, env, frame) => {
+    for (const item of checkIterable(iterable(state, env, frame), node)) {
+      let result;
+      if (slotted) {
+        const itemFrame = { slots: [item], parent: frame };
+        result = runLoopBody(() => body(state, env, itemFrame));
+      } else {
+        const itemEnv = new Environment(env);
+        itemEnv.define(name, item);
+        result = runLoopBody(() => body(state, itemEnv, frame));
+      }
+      if (result === "break") {
+        break;
+      }
+    }
+    return undefined;
+  };
+}
+
+/** Whether `node` has an `include(...)` call anywhere inside it. */
+function containsInclude(node: ASTNode): boolean {
+  if (
+    node.type === "call" &&
+    node.callee.type === "identifier" &&
+    node.callee.name === "include"
+  ) {
+    return true;
+  }
+  return childNodes(node).some(containsInclude);
+}
+
+/** The nodes directly inside `node`, in source order. */
+export function childNodes(node: ASTNode): ASTNode[] {
+  switch (node.type) {
+    case "comment":
+    case "literal":
+    case "identifier":
+    case "break":
+    case "continue":
+    case "import":
+      return [];
+    case "export":
+      return [node.declaration];
+    case "assignment":
+      return [node.target, node.value];
+    case "block":
+      return [node.body];
+    case "statementList":
+      return node.statements;
+    case "call":
+      return [node.callee, ...node.args];
+    case "function":
+      return [...node.args, node.body];
+    case "if":
+      return node.else
+        ? [node.condition, node.then, node.else]
+        : [node.condition, node.then];
+    case "while":
+      return [node.condition, node.body];
+    case "for":
+      return [node.variable, node.iterable, node.body];
+    case "return":
+      return node.value ? [node.value] : [];
+    case "unary":
+      return [node.operand];
+    case "logical":
+      return [node.left, node.right];
+    case "list":
+      return node.items;
+    case "record":
+      return node.fields.map((field) => field.value);
+    case "member":
+      return [node.object, node.property];
+    case "index":
+      return [node.object, node.index];
+    case "template":
+      return node.parts.filter((part) => typeof part !== "string");
+    default:
+      impossible(node, "Invalid node type");
+  }
+}
+
+/** A variable a program defines, at its first assignment or binding. */
+export type Definition = {
+  node: IdentifierNode;
+  kind: "variable" | "parameter" | "loop" | "import" | "namespace";
+  /** The assignment, lambda, loop or import it is defined by. */
+  statement: ASTNode;
+  /** The value of its first assignment. */
+  value?: ASTNode;
+  /** How many times it is assigned or bound, from any scope. */
+  assignments: number;
+  exported: boolean;
+};
+
+/** The variables the program, a block, a lambda or a `for` loop owns. */
+export type NameScope = {
+  /** The node whose source the scope covers. */
+  node: ASTNode;
+  definitions: Map<string, Definition>;
+  /** Whether the scope calls `include`, which can define any name. */
+  includes: boolean;
+  parent?: NameScope;
+  children: NameScope[];
+};
+
+export type Names = {
+  root: NameScope;
+  /** The scope of the program and of each block, lambda and `for` loop. */
+  scopes: Map<ASTNode, NameScope>;
+  /** The definition of each identifier that reads or assigns a variable. */
+  references: Map<IdentifierNode, Definition>;
+  /** Identifiers that read or assign a variable, defined or not. */
+  identifiers: IdentifierNode[];
+};
+
+/**
+ * Finds what each identifier in `ast` refers to. A name belongs to the
+ * innermost block or lambda that assigns it, unless an enclosing scope
+ * assigns it too, just like when the program runs.
+ */
+export function resolveNames(ast: ASTNode): Names {
+  const root = createNameScope(ast);
+  const names: Names = {
+    root,
+    scopes: new Map([[ast, root]]),
+    references: new Map(),
+    identifiers: [],
+  };
+  declareNames(root, ast);
+  walkNames(ast, root, names);
+  return names;
+}
+
+function createNameScope(node: ASTNode, parent?: NameScope): NameScope {
+  const scope: NameScope = {
+    node,
+    definitions: new Map(),
+    includes: false,
+    parent,
+    children: [],
+  };
+  parent?.children.push(scope);
+  return scope;
+}
+
+function defineName(
+  scope: NameScope,
+  node: IdentifierNode,
+  kind: Definition["kind"],
+  statement: ASTNode,
+  value?: ASTNode,
+  exported = false,
+) {
+  const existing = scope.definitions.get(node.name);
+  if (existing) {
+    existing.assignments++;
+    existing.exported ||= exported;
+  } else {
+    scope.definitions.set(node.name, {
+      node,
+      kind,
+      statement,
+      value,
+      assignments: 1,
+      exported,
+    });
+  }
+}
+
+function lookupName(scope: NameScope, name: string): Definition | undefined {
+  for (let s: NameScope | undefined = scope; s; s = s.parent) {
+    const definition = s.definitions.get(name);
+    if (definition) {
+      return definition;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Defines the names `node` assigns in `scope`, without looking inside blocks
+ * and lambdas, which have scopes of their own.
+ */
+function declareNames(scope: NameScope, node: ASTNode) {
+  switch (node.type) {
+    case "block":
+    case "function":
+      return;
+    case "export":
+    case "assignment": {
+      const assignment = node.type === "export" ? node.declaration : node;
+      const { target } = assignment;
+      if (target.type === "identifier") {
+        const exported = node.type === "export";
+        const outer = lookupName(scope, target.name);
+        if (outer) {
+          outer.assignments++;
+          outer.exported ||= exported;
+        } else {
+          defineName(
+            scope,
+            target,
+            "variable",
+            assignment,
+            assignment.value,
+            exported,
+          );
+        }
+      }
+      childNodes(assignment).forEach((child) => declareNames(scope, child));
+      return;
+    }
+    case "import":
+      for (const { local } of node.specifiers) {
+        defineName(scope, local, "import", node);
+      }
+      if (node.namespace) {
+        defineName(scope, node.namespace, "namespace", node);
+      }
+      return;
+    case "call":
+      if (node.callee.type === "identifier" && node.callee.name === "include") {
+        scope.includes = true;
+      }
+      break;
+  }
+  for (const child of childNodes(node)) {
+    declareNames(scope, child);
+  }
+}
+
+function referenceName(node: IdentifierNode, scope: NameScope, names: Names) {
+  names.identifiers.push(node);
+  const definition = lookupName(scope, node.name);
+  if (definition) {
+    names.references.set(node, definition);
+  }
+}
+
+function walkNames(node: ASTNode, scope: NameScope, names: Names) {
+  switch (node.type) {
+    case "identifier":
+      referenceName(node, scope, names);
+      return;
+    case "member":
+      walkNames(node.object, scope, names);
+      return;
+    case "import":
+      for (const { local } of node.specifiers) {
+        referenceName(local, scope, names);
+      }
+      if (node.namespace) {
+        referenceName(node.namespace, scope, names);
+      }
+      return;
+    case "block": {
+      const inner = createNameScope(node, scope);
+      names.scopes.set(node, inner);
+      declareNames(inner, node.body);
+      walkNames(node.body, inner, names);
+      return;
+    }
+    case "for": {
+      walkNames(node.iterable, scope, names);
+      const inner = createNameScope(node, scope);
+      names.scopes.set(node, inner);
+      defineName(inner, node.variable, "loop", node);
+      referenceName(node.variable, inner, names);
+      walkNames(node.body, inner, names);
+      return;
+    }
+    case "function": {
+      const inner = createNameScope(node, scope);
+      names.scopes.set(node, inner);
+      for (const param of node.args) {
+        defineName(inner, param, "parameter", node);
+        referenceName(param, inner, names);
+      }
+      declareNames(inner, node.body);
+      walkNames(node.body, inner, names);
+      return;
+    }
+  }
+  for (const child of childNodes(node)) {
+    walkNames(child, scope, names);
+  }
+}
+
+function isRecord(value: unknown): value is { [k: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function getField(object: unknown, key: string, node: BaseNode): unknown {
+  if (!isRecord(object)) {
+    throw new EvalError(
+      `Cannot read field ${key} of ${describeValue(object)}`,
+      node,
+    );
+  }
+  if (!Object.prototype.hasOwnProperty.call(object, key)) {
+    throw new EvalError(`No field ${key} in ${describeValue(object)}`, node);
+  }
+  return object[key];
+}
+
+function setField(
+  object: unknown,
+  key: string,
+  value: unknown,
+  node: BaseNode,
+): unknown {
+  if (!isRecord(object)) {
+    throw new EvalError(
+      `Cannot set field ${key} of ${describeValue(object)}`,
+      node,
+    );
+  }
+  Object.defineProperty(object, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+  return value;
+}
+
+function checkListIndex(list: unknown[], index: unknown, node: BaseNode) {
+  if (typeof index !== "number" || !Number.isInteger(index)) {
+    throw new EvalError(
+      `List index must be an integer, not ${describeValue(index)}`,
+      node,
+    );
+  }
+  if (index < 0 || index >= list.length) {
+    throw new EvalError(
+      `Index ${index} is out of range for list of length ${list.length}`,
+      node,
+    );
+  }
+}
+
+function getIndex(object: unknown, index: unknown, node: BaseNode): unknown {
+  if (Array.isArray(object)) {
+    checkListIndex(object, index, node);
+    return object[index as number];
+  }
+  if (isRecord(object) && typeof index === "string") {
+    return getField(object, index, node);
+  }
+  throw new EvalError(
+    `Cannot index ${describeValue(object)} with ${describeValue(index)}`,
+    node,
+  );
+}
+
+function setIndex(
+  object: unknown,
+  index: unknown,
+  value: unknown,
+  node: BaseNode,
+): unknown {
+  if (Array.isArray(object)) {
+    checkListIndex(object, index, node);
+    return (object[index as number] = value);
+  }
+  if (isRecord(object) && typeof index === "string") {
+    return setField(object, index, value, node);
+  }
+  throw new EvalError(
+    `Cannot assign to index ${describeValue(index)} of ${describeValue(object)}`,
+    node,
+  );
+}
+
+/** The source code `node` was parsed from. */
+export function sourceText(node: BaseNode): string {
+  return node.loc.src.slice(node.loc.start, node.loc.start + node.loc.length);
+}
+
+/** The name of a value's type as a tinyfn programmer would say it. */
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "list";
+  }
+  if (isRecord(value)) {
+    return "record";
+  }
+  if (typeof value === "bigint") {
+    return "number";
+  }
+  return typeof value;
+}
+
+/** A type name and value for error messages, like `number 3`. */
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return "undefined";
+  }
+  return `${typeOf(value)} ${inspect(value)}`;
+}
+
+/** How `print`, `str` and string interpolation show a value. */
+function toDisplayString(value: unknown): string {
+  return typeof value === "string" ? value : inspect(value);
+}
+
+export function formatToken(token: BaseToken): string {
+  return `{${token.line}:${token.col} ${token.type} ${token.value}}`;
+}
+
+export function formatAST(ast: ASTNode): string {
+  return JSON.stringify(ast, (k, v) => (k === "loc" ? undefined : v), 2);
+}
+
+function impossible(x: never, message: string): never {
+  throw new Error(`Impossible state: ${message}`);
+}